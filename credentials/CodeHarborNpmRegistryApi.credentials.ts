@@ -0,0 +1,36 @@
+import {
+	ICredentialType,
+	INodeProperties,
+	Icon,
+} from 'n8n-workflow';
+
+export class CodeHarborNpmRegistryApi implements ICredentialType {
+	name = 'codeHarborNpmRegistryApi';
+	displayName = 'CodeHarbor NPM Registry API';
+	icon: Icon = 'file:icon.svg';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Registry URL',
+			name: 'url',
+			type: 'string',
+			default: 'https://registry.npmjs.org/',
+			required: true,
+			description: 'Registry used to install the dependencies',
+		},
+		{
+			displayName: 'Auth Token',
+			name: 'token',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			description: 'Token used to authenticate to the registries',
+		},
+		{
+			displayName: 'Scoped Registries',
+			name: 'scopes',
+			type: 'json',
+			default: '{}',
+			description: 'JSON object with the registry of each package scope, e.g. {"@company": "https://npm.company.com/"}',
+		},
+	];
+}
@@ -0,0 +1,21 @@
+import {
+	ICredentialType,
+	INodeProperties,
+	Icon,
+} from 'n8n-workflow';
+
+export class CodeHarborSecretsApi implements ICredentialType {
+	name = 'codeHarborSecretsApi';
+	displayName = 'CodeHarbor Secrets API';
+	icon: Icon = 'file:icon.svg';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Secrets',
+			name: 'secrets',
+			type: 'json',
+			default: '{}',
+			required: true,
+			description: 'JSON object with the names and values of the secrets, e.g. {"API_TOKEN": "..."}. They are available to the code as environment variables.',
+		},
+	];
+}
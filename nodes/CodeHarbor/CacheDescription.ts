@@ -0,0 +1,105 @@
+import { INodeProperties } from 'n8n-workflow';
+
+export const cacheOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['cache'],
+			},
+		},
+		options: [
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete the dependency cache of a cache key',
+				action: 'Delete a dependency cache',
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get the details of the dependency cache of a cache key',
+				action: 'Get a dependency cache',
+			},
+			{
+				name: 'Install Dependencies',
+				value: 'installDependencies',
+				description: 'Install dependencies into the cache of a cache key without running any code',
+				action: 'Install dependencies into a cache',
+			},
+			{
+				name: 'List',
+				value: 'list',
+				description: 'List the dependency caches of the server',
+				action: 'List dependency caches',
+			},
+		],
+		default: 'list',
+	},
+];
+
+export const cacheFields: INodeProperties[] = [
+	{
+		displayName: 'Cache Key',
+		name: 'cacheKey',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['cache'],
+				operation: ['delete', 'get', 'installDependencies'],
+			},
+		},
+		default: '={{ $workflow.id }}',
+		description: 'Unique identifier of the dependency cache',
+	},
+	{
+		displayName: 'Options',
+		name: 'installOptions',
+		type: 'collection',
+		displayOptions: {
+			show: {
+				resource: ['cache'],
+				operation: ['installDependencies'],
+			},
+		},
+		default: {},
+		placeholder: 'Add Option',
+		options: [
+			{
+				displayName: 'Force Update Dependencies',
+				name: 'forceUpdate',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to force fresh installation of dependencies',
+			},
+			{
+				displayName: 'Lockfile',
+				name: 'lockfile',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				description: 'Contents of an NPM lockfile, used to install the exact dependency versions',
+			},
+			{
+				displayName: 'Package.json',
+				name: 'packageJson',
+				type: 'json',
+				default: '',
+				description: 'Contents of a package manifest. Its dependencies are installed along with the ones from the Dependencies list, which take precedence.',
+			},
+			{
+				displayName: 'Timeout',
+				name: 'timeout',
+				type: 'number',
+				default: 60000,
+				description: 'Maximum installation time in milliseconds',
+			},
+		],
+	},
+];
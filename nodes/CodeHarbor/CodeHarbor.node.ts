@@ -1,36 +1,82 @@
 import {
-	IBinaryData,
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
 	NodeConnectionType,
+	NodeOperationError,
 } from "n8n-workflow";
-import { Buffer } from 'buffer';
-
-
-const getFileExtension = (mimeType: string): string => {
-	const mimeToExt: {[key: string]: string} = {
-		'image/jpeg': '.jpg',
-		'image/jpg': '.jpg',
-		'image/png': '.png',
-		'image/gif': '.gif',
-		'image/webp': '.webp',
-		'image/svg+xml': '.svg',
-		'application/pdf': '.pdf',
-		'text/plain': '.txt',
-		'text/csv': '.csv',
-		'text/html': '.html',
-		'audio/mpeg': '.mp3',
-		'audio/mp3': '.mp3',
-		'audio/wav': '.wav',
-		'video/mp4': '.mp4',
-		'application/json': '.json',
-		'application/xml': '.xml',
-		'application/zip': '.zip',
-	};
-	return mimeToExt[mimeType] || '.bin';
-}
+import {
+	cacheFields,
+	cacheOperations,
+} from './CacheDescription';
+import {
+	addBinaryToInput,
+	attachLogsOnce,
+	buildErrorItem,
+	buildOutputItem,
+	codeHarborApiRequest,
+	createExecutionError,
+	executeCode,
+	getCachedResult,
+	getDependencies,
+	getEnvironment,
+	getExecutionContext,
+	getFileNameBase,
+	getFiles,
+	getRegistry,
+	getRegistryCacheKey,
+	getResolvedDependencies,
+	getResultCacheKey,
+	getRuntime,
+	getRuntimeOptions,
+	handleLogs,
+	IBinaryInputOptions,
+	IBinaryPart,
+	IContextOptions,
+	IExecutionTypeOptions,
+	IOutputOptions,
+	IResultCacheOptions,
+	IRetryOptions,
+	normalizeLogs,
+	routeResults,
+	runWithConcurrency,
+	saveStaticData,
+	setCachedResult,
+	setInstalledDependencies,
+	testServerCredential,
+	wrapCodeForBatch,
+} from './GenericFunctions';
+
+// Evaluated by n8n to build the outputs, so it must not reference anything outside of it
+const configuredOutputs = (parameters: {
+	resource?: string;
+	operation?: string;
+	numberOfOutputs?: number;
+	outputNames?: { values?: Array<{ name?: string }> };
+	advancedOptions?: { captureLogs?: boolean; logHandling?: string };
+}) => {
+	const numberOfOutputs = parameters.numberOfOutputs || 1;
+	const outputNames = ((parameters.outputNames && parameters.outputNames.values) || []).map((value) => value.name);
+	const advancedOptions = parameters.advancedOptions || {};
+	const outputs = [];
+	for (let i = 0; i < numberOfOutputs; i++) {
+		outputs.push({
+			type: 'main',
+			displayName: outputNames[i] || (numberOfOutputs > 1 || advancedOptions.logHandling === 'output' ? `Output ${i}` : undefined),
+		});
+	}
+	// The console output of the code goes to a last output with the Logs Output handling
+	const executesCode = parameters.resource !== 'cache' && parameters.operation !== 'validate';
+	if (executesCode && advancedOptions.captureLogs && advancedOptions.logHandling === 'output') {
+		outputs.push({
+			type: 'main',
+			displayName: 'Logs',
+		});
+	}
+	return outputs;
+};
 
 export class CodeHarbor implements INodeType {
 	description: INodeTypeDescription = {
@@ -39,8 +85,8 @@ export class CodeHarbor implements INodeType {
 		icon: "file:icon.svg",
 		group: ["transform"],
 		version: 1,
-		subtitle: 'Execute JavaScript code',
-		description: "Execute JavaScript code with dependencies in a Docker container environment",
+		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+		description: "Execute JavaScript, TypeScript or Python code with dependencies in a Docker container environment",
 		defaults: {
 			name: "CodeHarbor",
 		},
@@ -50,14 +96,34 @@ export class CodeHarbor implements INodeType {
 			// displayName: 'Input',
 		}],
 		// eslint-disable-next-line n8n-nodes-base/node-class-description-outputs-wrong
-		outputs: [{
-			type: NodeConnectionType.Main,
-			// displayName: 'Output',
-		}],
+		outputs: `={{(${configuredOutputs})($parameter)}}`,
 		credentials: [
 			{
 				name: 'codeHarborServerApi',
 				required: true,
+				testedBy: 'codeHarborServerApiTest',
+			},
+			{
+				name: 'codeHarborNpmRegistryApi',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['code', 'cache'],
+						operation: ['delete', 'execute', 'get', 'installDependencies', 'validate'],
+						usePrivateRegistry: [true],
+					},
+				},
+			},
+			{
+				name: 'codeHarborSecretsApi',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+						useSecrets: [true],
+					},
+				},
 			},
 		],
 		requestDefaults: {
@@ -68,11 +134,62 @@ export class CodeHarbor implements INodeType {
 			baseURL: "={{ $credentials.url }}",
 		},
 		properties: [
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Cache',
+						value: 'cache',
+					},
+					{
+						name: 'Code',
+						value: 'code',
+					},
+				],
+				default: 'code',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['code'],
+					},
+				},
+				options: [
+					{
+						name: 'Execute',
+						value: 'execute',
+						description: 'Execute code with its dependencies',
+						action: 'Execute code',
+					},
+					{
+						name: 'Validate',
+						value: 'validate',
+						description: 'Check the syntax and exported function of the code and preview its dependencies, without running it',
+						action: 'Validate code',
+					},
+				],
+				default: 'execute',
+			},
+			...cacheOperations,
+			...cacheFields,
 			// Mode selection
 			{
 				displayName: 'Mode',
 				name: 'mode',
 				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute', 'validate'],
+					},
+				},
 				options: [
 					{
 						name: 'Run Once for All Items',
@@ -86,6 +203,33 @@ export class CodeHarbor implements INodeType {
 				default: 'runOnceForAllItems',
 				description: 'Whether to run the code once for all items or once for each item',
 			},
+			{
+				displayName: 'Language',
+				name: 'language',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute', 'validate'],
+					},
+				},
+				options: [
+					{
+						name: 'JavaScript',
+						value: 'javascript',
+					},
+					{
+						name: 'Python',
+						value: 'python',
+					},
+					{
+						name: 'TypeScript',
+						value: 'typescript',
+					},
+				],
+				default: 'javascript',
+				description: 'Language of the code. TypeScript code is transpiled by the CodeHarbor server before it runs, and Python code runs on a Python runtime with pip packages.',
+			},
 			// Code execution properties - FOR ALL ITEMS mode
 			{
 				displayName: "Code",
@@ -97,9 +241,19 @@ export class CodeHarbor implements INodeType {
 				},
 				displayOptions: {
 					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
 						mode: [
 							"runOnceForAllItems",
-						]
+						],
+						language: [
+							"javascript",
+						],
 					}
 				},
 				default: "// This function runs once and receives all items as an array\n// You can use external npm packages by requiring them\n\nmodule.exports = function(items) {\n  console.log('Processing batch of', items.length, 'items');\n  \n  // Process all items in a single execution\n  const results = items.map(item => {\n    // Process each item\n    console.log('Processing:', item);\n    \n    // Return a new object with processed data\n    return {\n      ...item,\n    };\n  });\n  \n  return results;\n};",
@@ -117,23 +271,481 @@ export class CodeHarbor implements INodeType {
 				},
 				displayOptions: {
 					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
 						mode: [
 							"runOnceForEachItem",
-						]
+						],
+						language: [
+							"javascript",
+						],
 					}
 				},
 				default: "// This function runs once for each item\n// You can use external npm packages by requiring them\n\nmodule.exports = function(item) {\n  console.log('Processing item:', item);\n  \n  // Process the single item\n  const result = {\n    ...item,\n};\n  \n  return result;\n};",
 				description: "JavaScript code to execute. Must export a function that takes a single item and returns processed data. You can use console.log for debugging.",
 				required: true,
 			},
+			// TypeScript code execution properties - FOR ALL ITEMS mode
+			{
+				displayName: "Code",
+				name: "code",
+				type: "string",
+				typeOptions: {
+					editor: "jsEditor",
+				},
+				displayOptions: {
+					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
+						mode: [
+							"runOnceForAllItems",
+						],
+						language: [
+							"typescript",
+						],
+					}
+				},
+				default: "// This function runs once and receives all items as an array\n// You can use external npm packages by importing them\n\ntype Item = Record<string, any>;\n\nmodule.exports = function(items: Item[]): Item[] {\n  console.log('Processing batch of', items.length, 'items');\n  \n  // Process all items in a single execution\n  const results = items.map((item: Item): Item => {\n    // Process each item\n    console.log('Processing:', item);\n    \n    // Return a new object with processed data\n    return {\n      ...item,\n    };\n  });\n  \n  return results;\n};",
+				description: "TypeScript code to execute. Must export a function that takes items array and returns processed data. You can use console.log for debugging.",
+				required: true,
+			},
+			// TypeScript code execution properties - FOR EACH ITEM mode
+			{
+				displayName: "Code",
+				name: "code",
+				type: "string",
+				typeOptions: {
+					editor: "jsEditor",
+				},
+				displayOptions: {
+					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
+						mode: [
+							"runOnceForEachItem",
+						],
+						language: [
+							"typescript",
+						],
+					}
+				},
+				default: "// This function runs once for each item\n// You can use external npm packages by importing them\n\ntype Item = Record<string, any>;\n\nmodule.exports = function(item: Item): Item {\n  console.log('Processing item:', item);\n  \n  // Process the single item\n  const result: Item = {\n    ...item,\n  };\n  \n  return result;\n};",
+				description: "TypeScript code to execute. Must export a function that takes a single item and returns processed data. You can use console.log for debugging.",
+				required: true,
+			},
+			// Python code execution properties - FOR ALL ITEMS mode
+			{
+				displayName: "Code",
+				name: "code",
+				type: "string",
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
+						mode: [
+							"runOnceForAllItems",
+						],
+						language: [
+							"python",
+						],
+					}
+				},
+				default: "# This function runs once and receives all items as a list\n# You can use external pip packages by importing them\n\ndef main(items):\n    print('Processing batch of', len(items), 'items')\n\n    # Process all items in a single execution\n    results = []\n    for item in items:\n        # Process each item\n        print('Processing:', item)\n\n        # Return a new dict with processed data\n        results.append({\n            **item,\n        })\n\n    return results\n",
+				description: "Python code to execute. Must define a main function that takes the items list and returns processed data. You can use print for debugging.",
+				required: true,
+			},
+			// Python code execution properties - FOR EACH ITEM mode
+			{
+				displayName: "Code",
+				name: "code",
+				type: "string",
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						resource: [
+							"code",
+						],
+						operation: [
+							"execute",
+							"validate",
+						],
+						mode: [
+							"runOnceForEachItem",
+						],
+						language: [
+							"python",
+						],
+					}
+				},
+				default: "# This function runs once for each item\n# You can use external pip packages by importing them\n\ndef main(item):\n    print('Processing item:', item)\n\n    # Process the single item\n    result = {\n        **item,\n    }\n\n    return result\n",
+				description: "Python code to execute. Must define a main function that takes a single item and returns processed data. You can use print for debugging.",
+				required: true,
+			},
+			// Additional files
+			{
+				displayName: 'Files',
+				name: 'files',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute', 'validate'],
+					},
+				},
+				default: {},
+				placeholder: 'Add File',
+				description: 'Helper modules and data files written next to the code, e.g. to <code>require(\'./lib/utils\')</code>. Their dependencies are detected too.',
+				options: [
+					{
+						displayName: 'File',
+						name: 'values',
+						values: [
+							{
+								displayName: 'Path',
+								name: 'path',
+								type: 'string',
+								default: '',
+								placeholder: 'lib/utils.js',
+								description: 'Path of the file, relative to the code',
+							},
+							{
+								displayName: 'Content',
+								name: 'content',
+								type: 'string',
+								typeOptions: {
+									rows: 6,
+								},
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			// Output format
+			{
+				displayName: 'Output Mode',
+				name: 'outputMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				options: [
+					{
+						name: 'Wrap in Field',
+						value: 'wrap',
+						description: 'Put each returned value in a field of the output item',
+					},
+					{
+						name: 'Replace Item',
+						value: 'replace',
+						description: 'Use each returned object as the output item',
+					},
+					{
+						name: 'Merge Into Input Item',
+						value: 'merge',
+						description: 'Add the fields of each returned object to its input item',
+					},
+				],
+				default: 'wrap',
+				description: 'How to build the output items from the values returned by the code. The code can set <code>pairedItem</code> on returned objects to the index of their input item.',
+			},
+			{
+				displayName: 'Field Name',
+				name: 'resultField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+						outputMode: ['wrap'],
+					},
+				},
+				default: 'result',
+				description: 'Name of the field to put the returned values in',
+			},
+			// Outputs
+			{
+				displayName: 'Number of Outputs',
+				name: 'numberOfOutputs',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description: 'Number of outputs of the node. With more than one output the code can return <code>{ outputs: [[...], [...]] }</code> or set <code>_output</code> on each result to the index of its output.',
+			},
+			{
+				displayName: 'Output Names',
+				name: 'outputNames',
+				type: 'fixedCollection',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Output Name',
+				description: 'Names of the outputs, in order',
+				options: [
+					{
+						displayName: 'Output',
+						name: 'values',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			// Dependencies
+			{
+				displayName: 'Dependencies',
+				name: 'dependencies',
+				type: 'fixedCollection',
+				displayOptions: {
+					show: {
+						resource: ['code', 'cache'],
+						operation: ['execute', 'installDependencies', 'validate'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Dependency',
+				description: 'Packages to install, with their versions: NPM packages, or pip packages for Python. These take precedence over the dependencies detected from the code.',
+				options: [
+					{
+						displayName: 'Package',
+						name: 'packages',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'lodash',
+								description: 'Name of the package',
+							},
+							{
+								displayName: 'Version',
+								name: 'version',
+								type: 'string',
+								default: 'latest',
+								placeholder: '^4.17.21',
+								description: 'Version or semver range of the package',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Use Private Registry',
+				name: 'usePrivateRegistry',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['code', 'cache'],
+						operation: ['delete', 'execute', 'get', 'installDependencies', 'validate'],
+					},
+				},
+				default: false,
+				description: 'Whether to install the dependencies from the registries of a CodeHarbor NPM Registry credential, e.g. for private scoped packages. The dependency caches of a private registry are kept apart, so also enable it to get or delete them.',
+			},
+			// Environment
+			{
+				displayName: 'Environment',
+				name: 'environment',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Variable',
+				description: 'Environment variables available to the code in <code>process.env</code> for this run only',
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variables',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'API_URL',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Use Secrets Credential',
+				name: 'useSecrets',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				default: false,
+				description: 'Whether to add the secrets of a CodeHarbor Secrets credential to the environment variables. Their values are masked in the logs, debug information and errors returned by the node.',
+			},
 			// Advanced Options Section
+			{
+				displayName: 'Options',
+				name: 'validateOptions',
+				type: 'collection',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['validate'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Option',
+				options: [
+					{
+						displayName: 'Lockfile',
+						name: 'lockfile',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						description: 'Contents of an NPM lockfile, used to resolve the exact dependency versions',
+					},
+					{
+						displayName: 'Package.json',
+						name: 'packageJson',
+						type: 'json',
+						default: '',
+						description: 'Contents of a package manifest. Its dependencies are resolved along with the ones from the Dependencies list, which take precedence.',
+					},
+				],
+			},
 			{
 				displayName: 'Advanced Options',
 				name: 'advancedOptions',
 				type: 'collection',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
 				default: {},
 				placeholder: 'Add Option',
 				options: [
+					{
+						displayName: "Batch Size",
+						name: "batchSize",
+						type: "number",
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								"/mode": [
+									"runOnceForEachItem",
+								]
+							}
+						},
+						default: 1,
+						description: "Number of items to send to the server in a single request. The code still runs once for each item. Consecutive items whose code or options differ, e.g. set by expressions, are sent in separate requests.",
+					},
+					{
+						displayName: "Binary Properties",
+						name: "binaryProperties",
+						type: "string",
+						displayOptions: {
+							show: {
+								sendBinaryData: [
+									"selected",
+								]
+							}
+						},
+						default: "",
+						placeholder: "data, attachment",
+						description: "Comma-separated names of the binary properties to send",
+					},
+					{
+						displayName: "Binary Transfer",
+						name: "binaryTransfer",
+						type: "options",
+						options: [
+							{
+								name: "Base64 in JSON",
+								value: "base64",
+								description: "Inline the binary data as base64 in the JSON body",
+							},
+							{
+								name: "Multipart",
+								value: "multipart",
+								description: "Send the binary data as parts of a multipart request, avoiding the base64 overhead",
+							},
+						],
+						default: "base64",
+						description: "How to send the binary data of the input items to the server",
+					},
 					{
 						displayName: "Cache Key",
 						name: "cacheKey",
@@ -141,40 +753,213 @@ export class CodeHarbor implements INodeType {
 						default: "={{ $workflow.id }}",
 						description: "Unique identifier for caching dependencies",
 					},
+					{
+						displayName: "Cache Results",
+						name: "cacheResults",
+						type: "boolean",
+						default: false,
+						description: "Whether to reuse the result of a previous execution of the same code, dependencies and environment on the same input item instead of running it again. Only use it for code whose result depends only on its input.",
+					},
 					{
 						displayName: "Capture Console Logs",
 						name: "captureLogs",
 						type: "boolean",
 						default: false,
-						description: "Whether to include console logs in the output data",
+						description: "Whether to capture the console logs of the code, handled as set in Log Handling",
+					},
+					{
+						displayName: "Compress Requests",
+						name: "compressRequests",
+						type: "boolean",
+						default: false,
+						description: "Whether to gzip the JSON body of the requests and accept compressed responses. Useful for large inputs or results on slow networks.",
+					},
+					{
+						displayName: "Compression Threshold (KB)",
+						name: "compressionThreshold",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						displayOptions: {
+							show: {
+								compressRequests: [
+									true,
+								]
+							}
+						},
+						default: 10,
+						description: "Minimum size of a request body to compress it. Smaller bodies are sent as they are.",
+					},
+					{
+						displayName: "Debug Mode",
+						name: "debug",
+						type: "boolean",
+						default: false,
+						description: "Whether to return detailed debug information about the execution",
+					},
+					{
+						displayName: "Execution Type",
+						name: "executionType",
+						type: "options",
+						options: [
+							{
+								name: "Synchronous",
+								value: "sync",
+								description: "Wait for the result in a single request",
+							},
+							{
+								name: "Asynchronous",
+								value: "async",
+								description: "Submit a job and poll the server until it finishes. Use it for long-running code that would hit HTTP timeouts.",
+							},
+						],
+						default: "sync",
+						description: "How to wait for the result of the execution",
+					},
+					{
+						displayName: "Force Update Dependencies",
+						name: "forceUpdate",
+						type: "boolean",
+						default: false,
+						description: "Whether to force fresh installation of dependencies",
+					},
+					{
+						displayName: "Include Variables",
+						name: "includeVariables",
+						type: "string",
+						default: "",
+						placeholder: "API_URL, TENANT",
+						description: "Comma-separated names of the variables of the instance ($vars) to pass to the code in <code>context.vars</code>",
+					},
+					{
+						displayName: "Input Items",
+						name: "items",
+						type: "json",
+						displayOptions: {
+							show: {
+								"/mode": [
+									"runOnceForEachItem",
+								]
+							}
+						},
+						default: "={{ $json }}",
+						description: "The input data to pass to the JavaScript function for each item",
+					},
+					{
+						displayName: "Lockfile",
+						name: "lockfile",
+						type: "string",
+						typeOptions: {
+							rows: 4,
+						},
+						default: "",
+						description: "Contents of an NPM lockfile, used to install the exact dependency versions",
+					},
+					{
+						displayName: "Log Handling",
+						name: "logHandling",
+						type: "options",
+						displayOptions: {
+							show: {
+								captureLogs: [
+									true,
+								]
+							}
+						},
+						options: [
+							{
+								name: "Attach to Each Item",
+								value: "eachItem",
+								description: "Add the logs in a _console field of every output item",
+							},
+							{
+								name: "Attach Once",
+								value: "once",
+								description: "Add the logs in a _console field of the first output item of each execution only",
+							},
+							{
+								name: "Logs Output",
+								value: "output",
+								description: "Send the logs to an additional Logs output, with one item per line",
+							},
+							{
+								name: "Forward to Logger",
+								value: "logger",
+								description: "Forward the logs to the logger of n8n, at the level they were written with",
+							},
+						],
+						default: "eachItem",
+						description: "How to handle the console logs of the code. In \"Run Once for Each Item\" mode the logs of each item are tied to it.",
+					},
+					{
+						displayName: "Max Concurrent Requests",
+						name: "maxConcurrency",
+						type: "number",
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								"/mode": [
+									"runOnceForEachItem",
+								]
+							}
+						},
+						default: 1,
+						description: "Maximum number of requests (batches) sent to the server in parallel. With Persist Static Data the batches are sent one at a time.",
+					},
+					{
+						displayName: "Max Payload Size (MB)",
+						name: "maxPayloadSize",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: "Maximum size of a request to the server. Larger requests fail before the upload starts. Use 0 for no limit.",
+					},
+					{
+						displayName: "Max Wait Time",
+						name: "maxWaitTime",
+						type: "number",
+						displayOptions: {
+							show: {
+								executionType: [
+									"async",
+								]
+							}
+						},
+						default: 600000,
+						description: "Maximum time in milliseconds to wait for an asynchronous job to finish. The job is cancelled when it is exceeded.",
 					},
 					{
-						displayName: "Debug Mode",
-						name: "debug",
-						type: "boolean",
-						default: false,
-						description: "Whether to return detailed debug information about the execution",
+						displayName: "Package.json",
+						name: "packageJson",
+						type: "json",
+						default: "",
+						description: "Contents of a package manifest. Its dependencies are installed along with the ones from the Dependencies list, which take precedence.",
 					},
 					{
-						displayName: "Force Update Dependencies",
-						name: "forceUpdate",
+						displayName: "Persist Static Data",
+						name: "persistStaticData",
 						type: "boolean",
 						default: false,
-						description: "Whether to force fresh installation of dependencies",
+						description: "Whether to pass the static data of the node to the code in <code>context.staticData</code> and save the changes made to it, e.g. to keep a cursor between executions. Only saved for active workflows.",
 					},
 					{
-						displayName: "Input Items",
-						name: "items",
-						type: "json",
+						displayName: "Poll Interval",
+						name: "pollInterval",
+						type: "number",
 						displayOptions: {
 							show: {
-								"/mode": [
-									"runOnceForEachItem",
+								executionType: [
+									"async",
 								]
 							}
 						},
-						default: "={{ $json }}",
-						description: "The input data to pass to the JavaScript function for each item",
+						default: 1000,
+						description: "Time in milliseconds to wait before checking the status of an asynchronous job for the first time. The interval grows with each check.",
 					},
 					{
 						displayName: "Process Binary Output",
@@ -183,6 +968,47 @@ export class CodeHarbor implements INodeType {
 						default: true,
 						description: "Whether to process binary data in the output to be usable directly without a Convert to file node",
 					},
+					{
+						displayName: "Result Cache TTL",
+						name: "resultCacheTtl",
+						type: "number",
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								cacheResults: [
+									true,
+								]
+							}
+						},
+						default: 3600,
+						description: "Time in seconds during which a cached result is reused",
+					},
+					{
+						displayName: "Send Binary Data",
+						name: "sendBinaryData",
+						type: "options",
+						options: [
+							{
+								name: "All",
+								value: "all",
+								description: "Send all binary properties of the input items",
+							},
+							{
+								name: "Selected",
+								value: "selected",
+								description: "Send only the binary properties listed in Binary Properties",
+							},
+							{
+								name: "None",
+								value: "none",
+								description: "Do not send binary data",
+							},
+						],
+						default: "all",
+						description: "Which binary properties of the input items to send to the server",
+					},
 					{
 						displayName: "Timeout",
 						name: "timeout",
@@ -192,78 +1018,323 @@ export class CodeHarbor implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: 'Runtime and Limits',
+				name: 'runtimeOptions',
+				type: 'collection',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Limit',
+				description: 'Runtime the code runs on and the resources it can use. The server defaults apply to the ones that are not set.',
+				options: [
+					{
+						displayName: 'Allowed Hosts',
+						name: 'allowedHosts',
+						type: 'string',
+						displayOptions: {
+							show: {
+								networkAccess: ['allowlist'],
+							},
+						},
+						default: '',
+						placeholder: 'api.example.com, *.googleapis.com',
+						description: 'Comma-separated hosts the code can connect to',
+					},
+					{
+						displayName: 'CPU Share',
+						name: 'cpuShare',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 2,
+						},
+						default: 1,
+						description: 'Number of CPU cores the code can use, e.g. 0.5 for half a core',
+					},
+					{
+						displayName: 'Max Memory (MB)',
+						name: 'maxMemory',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 512,
+						description: 'Maximum memory the code can use. The execution fails when it is exceeded.',
+					},
+					{
+						displayName: 'Max Output Size (MB)',
+						name: 'maxOutputSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 10,
+						description: 'Maximum size of the data returned by the code. The execution fails when it is exceeded.',
+					},
+					{
+						displayName: 'Network Access',
+						name: 'networkAccess',
+						type: 'options',
+						options: [
+							{
+								name: 'Allow All',
+								value: 'allow',
+								description: 'The code can connect to any host',
+							},
+							{
+								name: 'Deny',
+								value: 'deny',
+								description: 'The code cannot make outbound connections',
+							},
+							{
+								name: 'Allowed Hosts Only',
+								value: 'allowlist',
+								description: 'The code can only connect to the Allowed Hosts',
+							},
+						],
+						default: 'allow',
+						description: 'Outbound connections the code can make',
+					},
+					{
+						displayName: 'Runtime Version',
+						name: 'runtimeVersion',
+						type: 'string',
+						default: '',
+						placeholder: '20',
+						description: 'Version of the runtime to run the code on, e.g. 20 for Node.js 20. It must be available on the server.',
+					},
+				],
+			},
+			{
+				displayName: 'Retry',
+				name: 'retry',
+				type: 'collection',
+				displayOptions: {
+					show: {
+						resource: ['code'],
+						operation: ['execute'],
+					},
+				},
+				default: {},
+				placeholder: 'Add Retry Option',
+				description: 'Run the code again when it fails for a transient reason. Errors thrown by the code are never retried.',
+				options: [
+					{
+						displayName: 'Initial Delay',
+						name: 'initialDelay',
+						type: 'number',
+						default: 1000,
+						description: 'Time in milliseconds to wait before the first retry. It doubles with each retry, with some random jitter.',
+					},
+					{
+						displayName: 'Max Attempts',
+						name: 'maxAttempts',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 3,
+						description: 'Maximum number of attempts, including the first one',
+					},
+					{
+						displayName: 'Max Delay',
+						name: 'maxDelay',
+						type: 'number',
+						default: 30000,
+						description: 'Maximum time in milliseconds to wait between two attempts',
+					},
+					{
+						displayName: 'Retry On',
+						name: 'retryOn',
+						type: 'multiOptions',
+						options: [
+							{
+								name: 'Dependency Install Failure',
+								value: 'dependency',
+								description: 'The dependencies could not be installed, e.g. because the NPM registry failed',
+							},
+							{
+								name: 'Network Error',
+								value: 'network',
+								description: 'The server could not be reached',
+							},
+							{
+								name: 'Rate Limit (429)',
+								value: 'rateLimit',
+								description: 'The server asked to slow down. Its Retry-After header is used as the delay.',
+							},
+							{
+								name: 'Server Error (5xx)',
+								value: 'serverError',
+								description: 'The server or a proxy in front of it failed',
+							},
+							{
+								name: 'Timeout',
+								value: 'timeout',
+								description: 'The code or the request timed out',
+							},
+						],
+						default: ['network', 'serverError', 'rateLimit'],
+						description: 'Which failures to retry',
+					},
+				],
+			},
 		],
 	};
 
+	methods = {
+		credentialTest: {
+			codeHarborServerApiTest: testServerCredential,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
-		const credentials = await this.getCredentials('codeHarborServerApi');
-		const mode = this.getNodeParameter('mode', 0) as string;
+		const resource = this.getNodeParameter('resource', 0, 'code') as string;
 
-		// Utility function to calculate file size from base64 string
-		const calculateSizeFromBase64 = (base64String: string): number => {
-			// Remove padding characters and calculate size
-			const base64 = base64String.replace(/=/g, '');
-			// Base64 represents 6 bits per character, so 4 characters = 3 bytes
-			const sizeInBytes = Math.floor((base64.length * 3) / 4);
-			return sizeInBytes;
-		};
+		if (resource === 'cache') {
+			const cacheData: INodeExecutionData[] = [];
+			const operation = this.getNodeParameter('operation', 0) as string;
+
+			for (let i = 0; i < items.length; i++) {
+				try {
+					let responseData;
+
+					if (operation === 'list') {
+						const response = await codeHarborApiRequest.call(this, 'GET', '/cache');
+						if (response.success === false) {
+							throw createExecutionError.call(this, response, i);
+						}
+						responseData = response.caches || [];
+					} else {
+						// The caches of a private registry have its hash in their key, like in executions
+						const registry = await getRegistry.call(this, i);
+						const cacheKey = getRegistryCacheKey(this.getNodeParameter('cacheKey', i) as string, registry);
+						const endpoint = `/cache/${encodeURIComponent(cacheKey)}`;
+
+						if (operation === 'get') {
+							responseData = await codeHarborApiRequest.call(this, 'GET', endpoint);
+						} else if (operation === 'delete') {
+							responseData = await codeHarborApiRequest.call(this, 'DELETE', endpoint);
+						} else if (operation === 'installDependencies') {
+							const installOptions = this.getNodeParameter('installOptions', i) as {
+								forceUpdate?: boolean;
+								lockfile?: string;
+								packageJson?: string;
+								timeout?: number;
+							};
+							const installEndpoint = `${endpoint}/install`;
+							responseData = await codeHarborApiRequest.call(this, 'POST', installEndpoint, {
+								dependencies: getDependencies.call(this, i, installOptions.packageJson),
+								lockfile: installOptions.lockfile || undefined,
+								registry,
+								options: {
+									timeout: installOptions.timeout || 60000,
+									forceUpdate: installOptions.forceUpdate || false,
+								},
+							});
+						} else {
+							throw new NodeOperationError(this.getNode(), `The operation "${operation}" is not supported`, { itemIndex: i });
+						}
+
+						if (responseData.success === false) {
+							throw createExecutionError.call(this, responseData, i);
+						}
+						// The dependencies of the cache changed, so do the results cached with them
+						if (operation !== 'get') {
+							setInstalledDependencies(cacheKey, getResolvedDependencies(responseData));
+						}
+					}
 
-		// Utility function to create a proper binary file using n8n's helpers
-		const processBinaryFile = async (value: any, itemIndex: number): Promise<{
-			[key: string]: IBinaryData
-		}> => {
-			const binaryData: { [key: string]: IBinaryData } = {};
-
-			for (const [key, val] of Object.entries<any>(value)) {
-				if (val && typeof val === 'object' && val !== null &&
-					'data' in val && typeof val.data === 'string' &&
-					'mimeType' in val && typeof val.mimeType === 'string') {
-
-					// Create a buffer from the base64 string
-					const buffer = Buffer.from(val.data, 'base64');
-
-					// Use n8n's built-in helper to create a binary file with proper view capabilities
-					const fileExtension = getFileExtension(val.mimeType);
-					const fileName = val.fileName || `file-${Date.now()}${fileExtension}`;
-
-					// Store binary data using n8n's helper (which automatically sets up correct metadata)
-					binaryData[key] = await this.helpers.prepareBinaryData(
-						buffer,
-						fileName,
-						val.mimeType
+					const executionData = this.helpers.constructExecutionMetaData(
+						this.helpers.returnJsonArray(responseData),
+						{ itemData: { item: i } },
 					);
+					cacheData.push(...executionData);
+				} catch (error) {
+					if (this.continueOnFail()) {
+						cacheData.push(buildErrorItem.call(this, error, i));
+					} else {
+						throw error;
+					}
+				}
+			}
+
+			return [cacheData];
+		}
+
+		if (this.getNodeParameter('operation', 0) === 'validate') {
+			const validationData: INodeExecutionData[] = [];
+
+			for (let i = 0; i < items.length; i++) {
+				try {
+					const language = this.getNodeParameter('language', i, 'javascript') as string;
+					const validateOptions = this.getNodeParameter('validateOptions', i, {}) as {
+						lockfile?: string;
+						packageJson?: string;
+					};
+
+					// The server checks the code and resolves its dependencies without running it
+					const response = await codeHarborApiRequest.call(this, 'POST', '/validate', {
+						code: this.getNodeParameter('code', i) as string,
+						language,
+						runtime: getRuntime(language),
+						mode: this.getNodeParameter('mode', i) as string,
+						files: getFiles.call(this, i),
+						dependencies: getDependencies.call(this, i, validateOptions.packageJson),
+						lockfile: validateOptions.lockfile || undefined,
+						registry: await getRegistry.call(this, i),
+					});
+					if (response.success === false && !Array.isArray(response.issues)) {
+						throw createExecutionError.call(this, response, i);
+					}
+
+					const issues = Array.isArray(response.issues) ? response.issues : [];
+					validationData.push({
+						json: {
+							valid: typeof response.valid === 'boolean' ? response.valid : issues.length === 0,
+							issues,
+							dependencies: response.dependencies || {},
+						},
+						pairedItem: { item: i },
+					});
+				} catch (error) {
+					if (this.continueOnFail()) {
+						validationData.push(buildErrorItem.call(this, error, i));
+					} else {
+						throw error;
+					}
 				}
 			}
-			return binaryData;
+
+			return [validationData];
+		}
+
+		const mode = this.getNodeParameter('mode', 0) as string;
+		const language = this.getNodeParameter('language', 0, 'javascript') as string;
+		const numberOfOutputs = Math.max(this.getNodeParameter('numberOfOutputs', 0, 1) as number, 1);
+		const { captureLogs, logHandling: logHandlingOption } = this.getNodeParameter('advancedOptions', 0) as {
+			captureLogs?: boolean;
+			logHandling?: string;
 		};
+		const logHandling = captureLogs ? logHandlingOption || 'eachItem' : undefined;
+		// With the Logs Output handling the log entries go to an additional last output
+		const returnData: INodeExecutionData[][] = Array.from(
+			{ length: numberOfOutputs + (logHandling === 'output' ? 1 : 0) },
+			() => [],
+		);
+		const logData: INodeExecutionData[] = logHandling === 'output' ? returnData[numberOfOutputs] : [];
 
 		if (mode === 'runOnceForAllItems') {
 			// Run code once for all items
 			try {
 				const code = this.getNodeParameter('code', 0) as string;
 
-				// Process input items to include binary data
-				const inputItems = await Promise.all(items.map(async (item, index) => {
-					const itemJson = { ...item.json };
-
-					// Add binary data if present
-					if (item.binary) {
-						itemJson.binary = {};
-						for (const binaryPropertyName of Object.keys(item.binary)) {
-							const binaryData = item.binary[binaryPropertyName];
-							const binaryBuffer = await this.helpers.getBinaryDataBuffer(index, binaryPropertyName);
-							itemJson.binary[binaryPropertyName] = {
-								...binaryData,
-								data: binaryBuffer.toString('base64'),
-							};
-						}
-					}
-
-					return itemJson;
-				}));
-
 				const advancedOptions = this.getNodeParameter('advancedOptions', 0) as {
 					cacheKey?: string;
 					timeout?: number;
@@ -271,339 +1342,393 @@ export class CodeHarbor implements INodeType {
 					debug?: boolean;
 					captureLogs?: boolean;
 					processBinaryOutput?: boolean;
-				};
-				const cacheKey = advancedOptions.cacheKey || this.getWorkflow().id?.toString() || Math.random().toString();
+					packageJson?: string;
+					lockfile?: string;
+				} & IExecutionTypeOptions & IBinaryInputOptions & IContextOptions & IResultCacheOptions;
+
+				// Process input items to include binary data
+				const binaryParts: IBinaryPart[] = [];
+				const inputItems = await Promise.all(items.map(async (item, index) =>
+					addBinaryToInput.call(this, { ...item.json }, item, index, advancedOptions, binaryParts),
+				));
+				const dependencies = getDependencies.call(this, 0, advancedOptions.packageJson);
+				const context = getExecutionContext.call(this, 0, advancedOptions);
+				delete context.itemIndex;
+				const files = getFiles.call(this, 0);
+				const { env, secrets } = await getEnvironment.call(this, 0);
+				const registry = await getRegistry.call(this, 0);
+				const cacheKey = getRegistryCacheKey(
+					advancedOptions.cacheKey || this.getWorkflow().id?.toString() || Math.random().toString(),
+					registry,
+				);
 				const timeout = advancedOptions.timeout || 60000;
 				const forceUpdate = advancedOptions.forceUpdate || false;
-				const debug = advancedOptions.debug || false;
-				const captureLogs = advancedOptions.captureLogs || false;
-				const processBinaryOutput = advancedOptions.processBinaryOutput !== false; // Default to true if not specified
+				const runtimeOptions = getRuntimeOptions.call(this, 0);
+				const outputOptions: IOutputOptions = {
+					debug: advancedOptions.debug || false,
+					captureLogs: logHandling === 'eachItem',
+					processBinaryOutput: advancedOptions.processBinaryOutput !== false, // Default to true if not specified
+					pairItems: true,
+					secrets,
+					outputMode: this.getNodeParameter('outputMode', 0, 'wrap') as IOutputOptions['outputMode'],
+					resultField: this.getNodeParameter('resultField', 0, 'result') as string,
+				};
+
+				// Serve the result of a previous execution on the same input when enabled, unless fresh
+				// dependencies are requested
+				const resultCacheKey = advancedOptions.cacheResults
+					? getResultCacheKey(
+						{
+							code, language, files, cacheKey, dependencies, lockfile: advancedOptions.lockfile, env, runtimeOptions,
+							context: { vars: context.vars, staticData: context.staticData },
+						},
+						items.map((item) => item.json),
+						items.map((item) => item.binary),
+					)
+					: undefined;
+				const cachedResponse = resultCacheKey && !forceUpdate ? getCachedResult(resultCacheKey, cacheKey) : undefined;
+				let response = cachedResponse;
 
 				// Make API request to CodeHarbor service
-				const response = await this.helpers.httpRequest({
-					method: 'POST',
-					url: credentials.url + '/execute',
-					headers: {
-						'Authorization': `Bearer ${credentials.apiKey}`,
-					},
-					body: {
+				if (!response) {
+					response = await executeCode.call(this, {
 						code,
+						language,
+						runtime: getRuntime(language),
+						files,
 						items: inputItems,
 						cacheKey,
+						dependencies,
+						lockfile: advancedOptions.lockfile || undefined,
+						registry,
+						env,
+						context,
 						options: {
 							timeout,
 							forceUpdate,
-							debug,
+							debug: outputOptions.debug,
+							...runtimeOptions,
 						},
-					},
-				});
+					}, {
+						...advancedOptions,
+						retry: this.getNodeParameter('retry', 0, {}) as IRetryOptions,
+					}, binaryParts);
+
+					if (resultCacheKey && response.success) {
+						response.resultCache = { hit: false };
+					}
+					handleLogs.call(this, normalizeLogs(response.console, undefined, secrets), logHandling, logData);
+				}
 
 				// Process the response
 				if (response.success) {
-					if (Array.isArray(response.data)) {
-						// Handle array of results - wrap each item in a result property
-						// Use Promise.all instead of forEach to properly handle async operations
-						await Promise.all(response.data.map(async (item, index) => {
-							const outputJson: Record<string, any> = {
-								result: item
-							};
-
-							// Add debug info if requested
-							if (debug && response.debug) {
-								outputJson._debug = response.debug;
-							}
-
-							// Add console logs if capture is enabled
-							if (captureLogs && Array.isArray(response.console) && response.console.length > 0) {
-								outputJson._console = response.console;
-							}
-
-							const outputItem: INodeExecutionData = {
-								json: outputJson,
-								pairedItem: index < items.length ? { item: index } : undefined,
-							};
-
-							// Process binary output if enabled and binary data exists in the result
-							if (processBinaryOutput &&
-								item &&
-								typeof item === 'object' &&
-								item !== null &&
-								'binary' in item &&
-								item.binary &&
-								typeof item.binary === 'object') {
-
-								try {
-									// Process binary data using n8n's built-in helpers
-									outputItem.binary = await processBinaryFile(item.binary, index);
-
-									// Remove binary data from JSON to avoid duplication
-									if (outputItem.json &&
-										outputItem.json.result &&
-										typeof outputItem.json.result === 'object' &&
-										outputItem.json.result !== null &&
-										'binary' in outputItem.json.result) {
-										delete outputItem.json.result.binary;
-									}
-								} catch (error) {
-									// If binary processing fails, log it but continue
-									console.error('Failed to process binary data:', error);
-								}
-							}
-
-							returnData.push(outputItem);
-						}));
-					} else {
-						// Handle single result - wrap in a result property
-						const outputJson: Record<string, any> = {
-							result: response.data
-						};
-
-						// Add debug info if requested
-						if (debug && response.debug) {
-							outputJson._debug = response.debug;
-						}
-
-						// Add console logs if capture is enabled
-						if (captureLogs && Array.isArray(response.console) && response.console.length > 0) {
-							outputJson._console = response.console;
-						}
-
-						const outputItem: INodeExecutionData = {
-							json: outputJson,
-							pairedItem: { item: 0 }
-						};
-
-						// Process binary output if enabled and binary data exists in the result
-						if (processBinaryOutput &&
-							response.data &&
-							typeof response.data === 'object' &&
-							response.data !== null &&
-							'binary' in response.data &&
-							response.data.binary &&
-							typeof response.data.binary === 'object') {
+					if (advancedOptions.persistStaticData) {
+						saveStaticData.call(this, response);
+					}
 
-							try {
-								// Process binary data using n8n's built-in helpers
-								outputItem.binary = await processBinaryFile(response.data.binary, 0);
-
-								// Remove binary data from JSON to avoid duplication
-								if (outputItem.json &&
-									outputItem.json.result &&
-									typeof outputItem.json.result === 'object' &&
-									outputItem.json.result !== null &&
-									'binary' in outputItem.json.result) {
-									delete outputItem.json.result.binary;
-								}
-							} catch (error) {
-								// If binary processing fails, log it but continue
-								console.error('Failed to process binary data:', error);
-							}
-						}
+					// Route the results to their outputs and wrap each of them in a result property
+					const routedResults = routeResults.call(this, response.data, numberOfOutputs);
+					for (const [outputIndex, results] of routedResults.entries()) {
+						const outputItems = await Promise.all(results.map(async ({ value, index }) =>
+							buildOutputItem.call(
+								this,
+								value,
+								index < items.length ? { item: index } : undefined,
+								response,
+								outputOptions,
+								getFileNameBase(numberOfOutputs > 1 ? outputIndex : undefined, index),
+							),
+						));
+						returnData[outputIndex].push(...outputItems);
+					}
+					if (logHandling === 'once') {
+						attachLogsOnce(returnData, normalizeLogs(response.console, undefined, secrets));
+					}
 
-						returnData.push(outputItem);
+					// Only results that could be output are cached
+					if (resultCacheKey && !cachedResponse) {
+						setCachedResult(resultCacheKey, response, response.data, advancedOptions.resultCacheTtl ?? 3600);
 					}
 				} else {
-					const error = {...response}
-					error.message = response.error;
-					throw error;
+					throw createExecutionError.call(this, response, undefined, secrets);
 				}
 			} catch (error) {
 				if (this.continueOnFail()) {
-					returnData.push({
-						json: {
-							error: error.message,
-						},
-						pairedItem: { item: 0 },
-					});
+					returnData[0].push(buildErrorItem.call(this, error, 0));
 				} else {
 					throw error;
 				}
 			}
 		} else {
-			// Run code once for each item
-			for (let i = 0; i < items.length; i++) {
+			// Run code once for each item, sending the items to the server in batches
+			const batchOptions = this.getNodeParameter('advancedOptions', 0) as {
+				batchSize?: number;
+				maxConcurrency?: number;
+				persistStaticData?: boolean;
+			};
+			const batchSize = Math.max(batchOptions.batchSize || 1, 1);
+			// Each batch saves the static data it was sent, so they run one after the other to see the changes of the previous ones
+			const maxConcurrency = batchOptions.persistStaticData ? 1 : Math.max(batchOptions.maxConcurrency || 1, 1);
+
+			// Code and options of a batch are taken from its first item, so the ones of all its items must match
+			const executeBatch = async (itemIndexes: number[]): Promise<INodeExecutionData[][]> => {
+				// Output items of each item of the batch, so they keep the order of the input items
+				const itemData = new Map<number, INodeExecutionData[][]>();
+				const batchLogData: INodeExecutionData[] = [];
+				const getBatchData = (): INodeExecutionData[][] => {
+					const batchData: INodeExecutionData[][] = Array.from({ length: numberOfOutputs }, () => []);
+					for (const i of itemIndexes) {
+						itemData.get(i)?.forEach((outputData, outputIndex) => batchData[outputIndex].push(...outputData));
+					}
+					if (logHandling === 'output') {
+						batchData.push(batchLogData);
+					}
+					return batchData;
+				};
+
+				// Route the results of an item to their outputs and wrap each of them in a result property
+				const addItemResults = async (data: any, itemIndex: number, response: IDataObject, outputOptions: IOutputOptions) => {
+					const logs = normalizeLogs(response.console, itemIndex, outputOptions.secrets);
+					const routedResults = routeResults.call(this, data, numberOfOutputs, itemIndex);
+					const outputData: INodeExecutionData[][] = [];
+					for (const [outputIndex, results] of routedResults.entries()) {
+						outputData[outputIndex] = await Promise.all(results.map(async ({ value, index }) =>
+							buildOutputItem.call(
+								this,
+								value,
+								{ item: itemIndex },
+								response,
+								outputOptions,
+								getFileNameBase(
+									numberOfOutputs > 1 ? outputIndex : undefined,
+									itemIndex,
+									results.length > 1 ? index : undefined,
+								),
+							),
+						));
+					}
+					if (logHandling === 'once') {
+						attachLogsOnce(outputData, logs);
+					}
+					itemData.set(itemIndex, outputData);
+				};
+
+				// A failed item of a batch gets its own error item, without failing the other items
+				const addItemError = (error: Error, itemIndex: number) => {
+					if (!this.continueOnFail()) {
+						throw error;
+					}
+					itemData.set(itemIndex, [[buildErrorItem.call(this, error, itemIndex, items[itemIndex].json)]]);
+				};
+
 				try {
-					const code = this.getNodeParameter('code', i) as string;
-					const advancedOptions = this.getNodeParameter('advancedOptions', i) as {
-						items?: any;
+					const firstIndex = itemIndexes[0];
+					const code = this.getNodeParameter('code', firstIndex) as string;
+					const advancedOptions = this.getNodeParameter('advancedOptions', firstIndex) as {
 						cacheKey?: string;
 						timeout?: number;
 						forceUpdate?: boolean;
 						debug?: boolean;
 						captureLogs?: boolean;
 						processBinaryOutput?: boolean;
-						};
-
-					// Process the input item to include binary data
-					let inputItem = advancedOptions.items || { ...items[i].json };
+						packageJson?: string;
+						lockfile?: string;
+					} & IExecutionTypeOptions & IBinaryInputOptions & IContextOptions & IResultCacheOptions;
+					const dependencies = getDependencies.call(this, firstIndex, advancedOptions.packageJson);
+					const files = getFiles.call(this, firstIndex);
+					const { env, secrets } = await getEnvironment.call(this, firstIndex);
+					const registry = await getRegistry.call(this, firstIndex);
+					const cacheKey = getRegistryCacheKey(
+						advancedOptions.cacheKey || this.getWorkflow().id?.toString() || Math.random().toString(),
+						registry,
+					);
+					const timeout = advancedOptions.timeout || 60000;
+					const forceUpdate = advancedOptions.forceUpdate || false;
+					const runtimeOptions = getRuntimeOptions.call(this, firstIndex);
+					const outputOptions: IOutputOptions = {
+						debug: advancedOptions.debug || false,
+						captureLogs: logHandling === 'eachItem',
+						processBinaryOutput: advancedOptions.processBinaryOutput !== false, // Default to true if not specified
+						secrets,
+						outputMode: this.getNodeParameter('outputMode', firstIndex, 'wrap') as IOutputOptions['outputMode'],
+						resultField: this.getNodeParameter('resultField', firstIndex, 'result') as string,
+					};
 
-					// Add binary data if present
-					if (items[i].binary) {
-						if (typeof inputItem !== 'object' || inputItem === null) {
+					const getInputItem = (i: number) => {
+						const { items: inputOverride } = this.getNodeParameter('advancedOptions', i) as { items?: any };
+						let inputItem = inputOverride || { ...items[i].json };
+						if (items[i].binary && (typeof inputItem !== 'object' || inputItem === null)) {
 							inputItem = {};
 						}
+						return inputItem;
+					};
 
-						inputItem.binary = {};
-						for (const binaryPropertyName of Object.keys(items[i].binary)) {
-							const binaryData = items[i].binary[binaryPropertyName];
-							const binaryBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
-							inputItem.binary[binaryPropertyName] = {
-								...binaryData,
-								data: binaryBuffer.toString('base64'),
-							};
+					const context = getExecutionContext.call(this, firstIndex, advancedOptions);
+
+					// Serve the items already executed on the same input from the result cache, when enabled
+					// and fresh dependencies are not requested
+					const resultCacheKeys = new Map<number, string>();
+					let pendingIndexes = itemIndexes;
+					if (advancedOptions.cacheResults) {
+						pendingIndexes = [];
+						for (const i of itemIndexes) {
+							const resultCacheKey = getResultCacheKey(
+								{
+									code, language, files, cacheKey, dependencies, lockfile: advancedOptions.lockfile, env, runtimeOptions,
+									context: { vars: context.vars, staticData: context.staticData },
+								},
+								getInputItem(i),
+								items[i].binary,
+							);
+							const cachedResponse = forceUpdate ? undefined : getCachedResult(resultCacheKey, cacheKey);
+							if (cachedResponse) {
+								try {
+									await addItemResults(cachedResponse.data, i, cachedResponse, outputOptions);
+								} catch (error) {
+									addItemError(error, i);
+								}
+							} else {
+								resultCacheKeys.set(i, resultCacheKey);
+								pendingIndexes.push(i);
+							}
+						}
+						if (pendingIndexes.length === 0) {
+							return getBatchData();
 						}
 					}
 
-					const cacheKey = advancedOptions.cacheKey || this.getWorkflow().id?.toString() || Math.random().toString();
-					const timeout = advancedOptions.timeout || 60000;
-					const forceUpdate = advancedOptions.forceUpdate || false;
-					const debug = advancedOptions.debug || false;
-					const captureLogs = advancedOptions.captureLogs || false;
-					const processBinaryOutput = advancedOptions.processBinaryOutput !== false; // Default to true if not specified
+					if (batchSize > 1) {
+						delete context.itemIndex;
+						context.itemIndexes = pendingIndexes;
+					}
+
+					// Process the input items to include binary data
+					const binaryParts: IBinaryPart[] = [];
+					const inputItems = await Promise.all(pendingIndexes.map(async (i) =>
+						addBinaryToInput.call(this, getInputItem(i), items[i], i, advancedOptions, binaryParts),
+					));
 
 					// Make API request to CodeHarbor service
-					const response = await this.helpers.httpRequest({
-						method: 'POST',
-						url: credentials.url + '/execute',
-						headers: {
-							'Authorization': `Bearer ${credentials.apiKey}`,
-						},
-						body: {
-							code,
-							items: inputItem, // Use the inputItem with binary data
-							cacheKey,
-							options: {
-								timeout,
-								forceUpdate,
-								debug,
-							},
+					const response = await executeCode.call(this, {
+						code: batchSize > 1 ? wrapCodeForBatch(code, language) : code,
+						language,
+						runtime: getRuntime(language),
+						files,
+						items: batchSize > 1 ? inputItems : inputItems[0],
+						cacheKey,
+						dependencies,
+						lockfile: advancedOptions.lockfile || undefined,
+						registry,
+						env,
+						context,
+						options: {
+							timeout,
+							forceUpdate,
+							debug: outputOptions.debug,
+							...runtimeOptions,
 						},
-					});
-
-					// Process the response
-					if (response.success) {
-						if (Array.isArray(response.data)) {
-							// Handle array of results
-							// Use Promise.all instead of forEach to properly handle async operations
-							await Promise.all(response.data.map(async (item) => {
-								const outputJson: Record<string, any> = {
-									result: item
-								};
-
-								// Add debug info if requested
-								if (debug && response.debug) {
-									outputJson._debug = response.debug;
-								}
-
-								// Add console logs if capture is enabled
-								if (captureLogs && Array.isArray(response.console) && response.console.length > 0) {
-									outputJson._console = response.console;
-								}
+					}, {
+						...advancedOptions,
+						retry: this.getNodeParameter('retry', firstIndex, {}) as IRetryOptions,
+					}, binaryParts);
 
-								const outputItem: INodeExecutionData = {
-									json: outputJson,
-									pairedItem: { item: i }
-								};
-
-								// Process binary output if enabled and binary data exists in the result
-								if (processBinaryOutput &&
-									item &&
-									typeof item === 'object' &&
-									item !== null &&
-									'binary' in item &&
-									item.binary &&
-									typeof item.binary === 'object') {
-
-									try {
-										// Process binary data using n8n's built-in helpers
-										outputItem.binary = await processBinaryFile(item.binary, i);
-
-										// Remove binary data from JSON to avoid duplication
-										if (outputItem.json &&
-											outputItem.json.result &&
-											typeof outputItem.json.result === 'object' &&
-											outputItem.json.result !== null &&
-											'binary' in outputItem.json.result) {
-											delete outputItem.json.result.binary;
-										}
-									} catch (error) {
-										// If binary processing fails, log it but continue
-										console.error('Failed to process binary data:', error);
-									}
-								}
-
-								returnData.push(outputItem);
-							}));
-						} else {
-							// Handle single result
-							const outputJson: Record<string, any> = {
-								result: response.data
-							};
+					// Log the console output of each item, tied to the item it came from
+					const handleItemLogs = (consoleLogs: any, itemIndex?: number) =>
+						handleLogs.call(this, normalizeLogs(consoleLogs, itemIndex, secrets), logHandling, batchLogData);
 
-							// Add debug info if requested
-							if (debug && response.debug) {
-								outputJson._debug = response.debug;
-							}
-
-							// Add console logs if capture is enabled
-							if (captureLogs && Array.isArray(response.console) && response.console.length > 0) {
-								outputJson._console = response.console;
-							}
+					if (!response.success) {
+						handleItemLogs(response.console, batchSize === 1 ? pendingIndexes[0] : undefined);
+						throw createExecutionError.call(this, response, pendingIndexes[0], secrets);
+					}
+					if (advancedOptions.persistStaticData) {
+						saveStaticData.call(this, response);
+					}
 
-							const outputItem: INodeExecutionData = {
-								json: outputJson,
-								pairedItem: { item: i }
-							};
+					// Add the results of an item with its own console output, marked as a miss of the result
+					// cache, and cache them once they could be output
+					const addExecutedItemResults = async (i: number, data: any, consoleLogs: any) => {
+						const resultCacheKey = resultCacheKeys.get(i);
+						const itemResponse: IDataObject = { ...response, console: consoleLogs };
+						if (resultCacheKey) {
+							itemResponse.resultCache = { hit: false };
+						}
+						await addItemResults(data, i, itemResponse, outputOptions);
+						if (resultCacheKey) {
+							setCachedResult(resultCacheKey, itemResponse, data, advancedOptions.resultCacheTtl ?? 3600);
+						}
+					};
 
-							// Process binary output if enabled and binary data exists in the result
-							if (processBinaryOutput &&
-								response.data &&
-								typeof response.data === 'object' &&
-								response.data !== null &&
-								'binary' in response.data &&
-								response.data.binary &&
-								typeof response.data.binary === 'object') {
+					if (batchSize === 1) {
+						handleItemLogs(response.console, firstIndex);
+						await addExecutedItemResults(firstIndex, response.data, response.console);
+						return getBatchData();
+					}
 
-								try {
-									// Process binary data using n8n's built-in helpers
-									outputItem.binary = await processBinaryFile(response.data.binary, i);
-
-									// Remove binary data from JSON to avoid duplication
-									if (outputItem.json &&
-										outputItem.json.result &&
-										typeof outputItem.json.result === 'object' &&
-										outputItem.json.result !== null &&
-										'binary' in outputItem.json.result) {
-										delete outputItem.json.result.binary;
-									}
-								} catch (error) {
-									// If binary processing fails, log it but continue
-									console.error('Failed to process binary data:', error);
-								}
+					// Match every result of the batch back to its item
+					for (const [position, i] of pendingIndexes.entries()) {
+						const itemResult = Array.isArray(response.data) ? response.data[position] : undefined;
+						handleItemLogs(itemResult?.console, i);
+						if (itemResult?.success) {
+							try {
+								await addExecutedItemResults(i, itemResult.data, itemResult.console);
+							} catch (error) {
+								addItemError(error, i);
 							}
-
-							returnData.push(outputItem);
+						} else {
+							addItemError(createExecutionError.call(this, {
+								error: itemResult?.error || 'No result returned for this item',
+								stack: itemResult?.stack,
+								console: itemResult?.console ?? response.console,
+							}, i, secrets), i);
 						}
-					} else {
-						const error = {...response}
-						error.message = response.error;
-						throw error;
 					}
 				} catch (error) {
 					if (this.continueOnFail()) {
-						returnData.push({
-							json: {
-								error: error.message,
-							},
-							pairedItem: { item: i },
-						});
+						// Items served from the result cache keep their results
+						for (const i of itemIndexes.filter((i) => !itemData.has(i))) {
+							itemData.set(i, [[buildErrorItem.call(this, error, i, items[i].json)]]);
+						}
+						return getBatchData();
 					} else {
 						throw error;
 					}
 				}
+
+				return getBatchData();
+			};
+
+			// Items whose code or options differ, e.g. set by expressions, start a new batch
+			const batchParameters = [
+				'code', 'dependencies', 'files', 'environment', 'useSecrets', 'usePrivateRegistry',
+				'runtimeOptions', 'retry', 'outputMode', 'resultField',
+			];
+			const getBatchKey = (i: number) => {
+				const { items: _inputItems, ...itemOptions } = this.getNodeParameter('advancedOptions', i) as IDataObject;
+				return JSON.stringify([itemOptions, ...batchParameters.map((name) => this.getNodeParameter(name, i, null))]);
+			};
+
+			const batches: number[][] = [];
+			let lastBatchKey: string | undefined;
+			for (let i = 0; i < items.length; i++) {
+				const batchKey = batchSize > 1 ? getBatchKey(i) : undefined;
+				const lastBatch = batches[batches.length - 1];
+				if (lastBatch && lastBatch.length < batchSize && batchKey === lastBatchKey) {
+					lastBatch.push(i);
+				} else {
+					batches.push([i]);
+				}
+				lastBatchKey = batchKey;
+			}
+
+			const batchResults: INodeExecutionData[][][] = [];
+			await runWithConcurrency(batches, maxConcurrency, async (batch, batchIndex) => {
+				batchResults[batchIndex] = await executeBatch(batch);
+			});
+			for (const batchData of batchResults) {
+				batchData.forEach((outputData, outputIndex) => returnData[outputIndex].push(...outputData));
 			}
 		}
 
-		return [returnData];
+		return returnData;
 	}
 }
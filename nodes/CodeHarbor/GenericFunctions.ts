@@ -0,0 +1,1666 @@
+import {
+	IBinaryData,
+	ICredentialDataDecryptedObject,
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	INodeCredentialTestResult,
+	INodeExecutionData,
+	IPairedItemData,
+	ISupplyDataFunctions,
+	JsonObject,
+	NodeApiError,
+	NodeOperationError,
+	sleep,
+} from 'n8n-workflow';
+import { Buffer } from 'buffer';
+import { createHash, randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { extension } from 'mime-types';
+import { CodeHarborServerApi, getSignatureHeaders } from '../../credentials/CodeHarborServerApi.credentials';
+
+const gzipAsync = promisify(gzip);
+
+export interface IOutputOptions {
+	debug: boolean;
+	captureLogs: boolean;
+	processBinaryOutput: boolean;
+	// Whether the code runs for all the items, so it can pair its results with any of them
+	pairItems?: boolean;
+	secrets?: string[];
+	outputMode?: 'wrap' | 'replace' | 'merge';
+	resultField?: string;
+}
+
+export interface IExecutionTypeOptions {
+	executionType?: 'sync' | 'async';
+	maxWaitTime?: number;
+	pollInterval?: number;
+	maxPayloadSize?: number;
+	compressRequests?: boolean;
+	compressionThreshold?: number;
+	retry?: IRetryOptions;
+}
+
+export interface IApiRequestOptions {
+	// Server that answered the request. When set before, only that server is used
+	server?: string;
+	compress?: boolean;
+	compressionThreshold?: number;
+	// Payload sizes of the requests, set when compressing
+	transfer?: IDataObject;
+}
+
+export interface IResultCacheOptions {
+	cacheResults?: boolean;
+	resultCacheTtl?: number;
+}
+
+export interface IRetryOptions {
+	maxAttempts?: number;
+	initialDelay?: number;
+	maxDelay?: number;
+	retryOn?: string[];
+}
+
+export interface IBinaryInputOptions {
+	sendBinaryData?: 'all' | 'selected' | 'none';
+	binaryProperties?: string;
+	binaryTransfer?: 'base64' | 'multipart';
+}
+
+export interface ILogEntry extends IDataObject {
+	level: 'error' | 'warn' | 'info' | 'debug';
+	timestamp?: string;
+	message: string;
+	itemIndex?: number;
+}
+
+export interface IRoutedResult {
+	value: any;
+	// Position of the result in the data returned by the code
+	index: number;
+}
+
+export interface IBinaryPart {
+	name: string;
+	blob: Blob;
+	fileName?: string;
+}
+
+// Time of the last connection failure of each server, shared by all executions
+const serverFailures = new Map<string, number>();
+const roundRobinCounters = new Map<string, number>();
+
+// Errors of requests that never reached the server, so they are safe to send to another one
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+const isConnectionError = (error: any): boolean =>
+	!error.response && CONNECTION_ERROR_CODES.includes(error.code ?? error.cause?.code);
+
+// Compressed requests are not sent as JSON, so their responses come back as text
+const parseJsonBody = (body: any): any => {
+	if (typeof body !== 'string') {
+		return body;
+	}
+	try {
+		return JSON.parse(body);
+	} catch (error) {
+		return body;
+	}
+};
+
+const getCompressionRatio = (bytes: number, compressedBytes: number): number =>
+	Math.round((bytes / Math.max(compressedBytes, 1)) * 100) / 100;
+
+/**
+ * Get the W3C trace context and correlation ID headers of a request. All the
+ * requests of a node in an execution share the trace, derived from the
+ * execution ID and node name, and each one is a span of it.
+ */
+export const getTraceHeaders = (executionId: string, nodeName: string): IDataObject => {
+	const traceId = createHash('sha256').update(`${executionId}:${nodeName}`).digest('hex').slice(0, 32);
+	const spanId = randomBytes(8).toString('hex');
+	return {
+		traceparent: `00-${traceId}-${spanId}-01`,
+		tracestate: `n8n=${encodeURIComponent(executionId)}`,
+		'X-Correlation-ID': `${executionId}:${encodeURIComponent(nodeName)}`,
+	};
+};
+
+/**
+ * Get the URLs of the servers of the credential, the Server URL first
+ */
+export const getServerUrls = (credentials: ICredentialDataDecryptedObject): string[] => {
+	const urls = [credentials.url, ...String(credentials.additionalUrls || '').split(',')]
+		.map((url) => String(url || '').trim().replace(/\/+$/, ''))
+		.filter((url) => url);
+	return [...new Set(urls)];
+};
+
+/**
+ * Order the servers to try for a request following the strategy of the
+ * credential. Servers in their cooldown are skipped, unless all of them are,
+ * in which case they are tried from the one that failed the longest ago.
+ */
+export const orderServers = (
+	servers: string[],
+	strategy: string,
+	cooldown: number,
+	now = Date.now(),
+): string[] => {
+	let ordered = [...servers];
+	if (strategy === 'roundRobin') {
+		const key = servers.join(',');
+		const counter = roundRobinCounters.get(key) || 0;
+		roundRobinCounters.set(key, counter + 1);
+		const start = counter % servers.length;
+		ordered = [...servers.slice(start), ...servers.slice(0, start)];
+	} else if (strategy === 'leastRecentlyFailed') {
+		ordered.sort((a, b) => (serverFailures.get(a) || 0) - (serverFailures.get(b) || 0));
+	}
+
+	const available = ordered.filter((server) => now - (serverFailures.get(server) ?? -Infinity) >= cooldown);
+	if (available.length > 0) {
+		return available;
+	}
+	return [...servers].sort((a, b) => (serverFailures.get(a) || 0) - (serverFailures.get(b) || 0));
+};
+
+/**
+ * Get the TLS options of the requests to the servers: the CA that signed their
+ * certificates and the client certificate
+ */
+const getAgentOptions = (credentials: ICredentialDataDecryptedObject): IDataObject | undefined => {
+	const agentOptions: IDataObject = {};
+	if (credentials.caCertificate && !credentials.ignoreSslIssues) {
+		agentOptions.ca = credentials.caCertificate;
+	}
+	if (credentials.clientCertificate) {
+		agentOptions.cert = credentials.clientCertificate;
+		agentOptions.key = credentials.clientKey || undefined;
+		agentOptions.passphrase = credentials.passphrase || undefined;
+	}
+	return Object.keys(agentOptions).length > 0 ? agentOptions : undefined;
+};
+
+/**
+ * Test the server credential on `/verify-auth` of each of its servers. Unlike
+ * the declarative credential tests, it uses the TLS options of the credential.
+ */
+export async function testServerCredential(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = credential.data || {};
+	for (const server of getServerUrls(credentials)) {
+		const url = `${server}/verify-auth`;
+		try {
+			const { headers } = await new CodeHarborServerApi().authenticate(credentials, { method: 'GET', url });
+			await this.helpers.request({
+				method: 'GET',
+				uri: url,
+				headers,
+				json: true,
+				timeout: 10000,
+				rejectUnauthorized: !credentials.ignoreSslIssues,
+				agentOptions: getAgentOptions(credentials),
+			});
+		} catch (error) {
+			return {
+				status: 'Error',
+				message: `${server}: ${error.message}`,
+			};
+		}
+	}
+
+	return {
+		status: 'OK',
+		message: 'Connection successful',
+	};
+}
+
+/**
+ * Send a request to a server, authenticated by the credential (bearer token,
+ * custom headers and signature) and with its TLS options. Every request of the
+ * node goes through it.
+ */
+async function serverRequest(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	credentials: ICredentialDataDecryptedObject,
+	options: {
+		method: IHttpRequestMethods;
+		url: string;
+		body?: IDataObject | FormData | Buffer;
+		headers?: IDataObject;
+		timeout?: number;
+		compress?: boolean;
+	},
+): Promise<any> {
+
+	// A gzipped body is already serialized, and the full response is needed to measure its size
+	const gzipped = Buffer.isBuffer(options.body);
+	return this.helpers.requestWithAuthentication.call(this, 'codeHarborServerApi', {
+		method: options.method,
+		uri: options.url,
+		body: options.body,
+		headers: {
+			...getTraceHeaders(String(this.getExecutionId() ?? ''), this.getNode().name),
+			...(gzipped ? { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' } : {}),
+			...options.headers,
+		},
+		json: !gzipped,
+		gzip: options.compress,
+		resolveWithFullResponse: options.compress,
+		timeout: options.timeout,
+		rejectUnauthorized: !credentials.ignoreSslIssues,
+		agentOptions: getAgentOptions(credentials),
+	});
+}
+
+/**
+ * Check the /health endpoint of a server that failed before, once its cooldown
+ * is over, and forget the failure when it is back
+ */
+async function isServerHealthy(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	credentials: ICredentialDataDecryptedObject,
+	server: string,
+): Promise<boolean> {
+	if (!serverFailures.has(server)) {
+		return true;
+	}
+
+	try {
+		await serverRequest.call(this, credentials, { method: 'GET', url: `${server}/health`, timeout: 5000 });
+		serverFailures.delete(server);
+		return true;
+	} catch (error) {
+		serverFailures.set(server, Date.now());
+		return false;
+	}
+}
+
+/**
+ * Make an authenticated request to the CodeHarbor server. With several servers
+ * in the credential, a request that cannot reach a server is sent to the next
+ * one. The server that answered is set in `target.server`, and a request with
+ * `target.server` already set is only sent to that server, e.g. for the status
+ * of a job.
+ */
+export async function codeHarborApiRequest(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IDataObject,
+	parts: IBinaryPart[] = [],
+	target: IApiRequestOptions = {},
+): Promise<any> {
+	const credentials = await this.getCredentials('codeHarborServerApi');
+
+	// With binary parts the body is sent as a JSON "payload" field of a multipart request
+	let requestBody: IDataObject | FormData | Buffer | undefined = body;
+	let compressedJson: string | undefined;
+	const transfer: IDataObject = {};
+	if (parts.length > 0) {
+		const formData = new FormData();
+		formData.append('payload', JSON.stringify(body));
+		for (const part of parts) {
+			formData.append(part.name, part.blob, part.fileName || part.name);
+		}
+		requestBody = formData;
+	} else if (target.compress && body !== undefined) {
+		// Small bodies are not worth the compression time
+		const json = JSON.stringify(body);
+		const requestBytes = Buffer.byteLength(json);
+		transfer.requestBytes = requestBytes;
+		if (requestBytes >= (target.compressionThreshold ?? 10) * 1024) {
+			requestBody = await gzipAsync(json);
+			compressedJson = json;
+			transfer.requestCompressedBytes = requestBody.length;
+			transfer.requestCompressionRatio = getCompressionRatio(requestBytes, requestBody.length);
+		}
+	}
+
+	const cooldown = ((credentials.cooldown as number) ?? 60) * 1000;
+	const servers = target.server
+		? [target.server]
+		: orderServers(getServerUrls(credentials), credentials.strategy as string, cooldown);
+
+	let lastError: any;
+	for (const [index, server] of servers.entries()) {
+		const isLastServer = index === servers.length - 1;
+		if (!target.server && !isLastServer && !(await isServerHealthy.call(this, credentials, server))) {
+			continue;
+		}
+
+		try {
+			// Compressed requests are signed with their JSON, the credential only gets the compressed body
+			const response = await serverRequest.call(this, credentials, {
+				method,
+				url: server + endpoint,
+				body: requestBody,
+				headers: compressedJson !== undefined && credentials.signRequests
+					? getSignatureHeaders(credentials.signingSecret as string, method, server + endpoint, compressedJson)
+					: undefined,
+				compress: target.compress,
+			});
+			serverFailures.delete(server);
+			target.server = server;
+			if (!target.compress) {
+				return response;
+			}
+
+			// The compressed size is only known when the server sends a Content-Length
+			const responseBody = parseJsonBody(response.body);
+			const responseBytes = Buffer.byteLength(
+				typeof response.body === 'string' ? response.body : JSON.stringify(responseBody ?? null),
+			);
+			const contentLength = Number(response.headers?.['content-length']);
+			transfer.responseBytes = responseBytes;
+			if (contentLength > 0 && contentLength < responseBytes) {
+				transfer.responseCompressedBytes = contentLength;
+				transfer.responseCompressionRatio = getCompressionRatio(responseBytes, contentLength);
+			}
+			target.transfer = { ...target.transfer, ...transfer };
+			return responseBody;
+		} catch (error) {
+			// Failures reported by the server, e.g. of the user code, are handled like the ones of a successful response
+			const responseBody = parseJsonBody(error.response?.data ?? error.response?.body ?? error.error);
+			if (responseBody && typeof responseBody === 'object' && responseBody.success === false) {
+				target.server = server;
+				return responseBody;
+			}
+			if (!isConnectionError(error)) {
+				throw new NodeApiError(this.getNode(), error as JsonObject);
+			}
+			serverFailures.set(server, Date.now());
+			lastError = error;
+		}
+	}
+
+	throw new NodeApiError(this.getNode(), lastError as JsonObject, {
+		message: servers.length > 1 ? 'None of the CodeHarbor servers could be reached' : undefined,
+	});
+}
+
+/**
+ * Get the class of a failure of the execution that can be retried: network,
+ * serverError (5xx), rateLimit (429), dependency or timeout. Errors of the user
+ * code are never retried, so they have no class.
+ */
+export const getRetryReason = (error: any, response?: IDataObject): string | undefined => {
+	if (response) {
+		return ['dependency', 'timeout'].includes(response.errorType as string)
+			? response.errorType as string
+			: undefined;
+	}
+	if (!(error instanceof NodeApiError)) {
+		return undefined;
+	}
+
+	// Without an HTTP response the code of the request error is set as HTTP code
+	const httpCode = error.httpCode || '';
+	if (!/^\d{3}$/.test(httpCode)) {
+		const code = httpCode || (error.cause as any)?.code;
+		return code === 'ECONNABORTED' || code === 'ETIMEDOUT' ? 'timeout' : 'network';
+	}
+	if (httpCode === '429') {
+		return 'rateLimit';
+	}
+	if (httpCode.startsWith('5')) {
+		return 'serverError';
+	}
+	return undefined;
+};
+
+/**
+ * Get the delay before the next attempt: the Retry-After header of a 429
+ * response when there is one, or an exponential backoff with jitter
+ */
+const getRetryDelay = (attempt: number, retry: IRetryOptions, error?: any): number => {
+	const maxDelay = retry.maxDelay ?? 30000;
+	const retryAfter = error?.cause?.response?.headers?.['retry-after'];
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+		if (!isNaN(delay)) {
+			return Math.min(Math.max(delay, 0), maxDelay);
+		}
+	}
+
+	const backoff = Math.min((retry.initialDelay ?? 1000) * 2 ** (attempt - 1), maxDelay);
+	return backoff / 2 + Math.random() * backoff / 2;
+};
+
+/**
+ * Get the size of the JSON of a request body. The base64 data of its binary
+ * properties is counted from its length, instead of serializing it again.
+ */
+const getPayloadSize = (body: IDataObject): number => {
+	let binarySize = 0;
+	const json = JSON.stringify(body, function (key, value) {
+		if (key === 'data' && typeof value === 'string' && isPlainObject(this) && 'mimeType' in this) {
+			binarySize += value.length;
+			return '';
+		}
+		return value;
+	});
+	return Buffer.byteLength(json) + binarySize;
+};
+
+/**
+ * Execute code on the CodeHarbor server, retrying the failures of the classes
+ * selected in the retry options. The attempts and the reasons of the retries
+ * are set in the `retry` field of the response.
+ */
+export async function executeCode(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	body: IDataObject,
+	options: IExecutionTypeOptions,
+	parts: IBinaryPart[] = [],
+): Promise<any> {
+	// Fail before uploading anything when the payload is too large
+	if (options.maxPayloadSize) {
+		const payloadSize = parts.reduce((size, part) => size + part.blob.size, getPayloadSize(body));
+		const maxPayloadSize = options.maxPayloadSize * 1024 * 1024;
+		if (payloadSize > maxPayloadSize) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The request payload is ${(payloadSize / 1024 / 1024).toFixed(2)} MB, above the maximum of ${options.maxPayloadSize} MB`,
+				{
+					description: 'Send fewer binary properties, use a smaller batch size or increase the Max Payload Size option',
+				},
+			);
+		}
+	}
+
+	const retry = options.retry || {};
+	const maxAttempts = Math.max(retry.maxAttempts || 1, 1);
+	const retryOn = retry.retryOn || ['network', 'serverError', 'rateLimit'];
+	const reasons: string[] = [];
+	const shouldRetry = (attempt: number, reason?: string): reason is string =>
+		attempt < maxAttempts && !!reason && retryOn.includes(reason) && !this.getExecutionCancelSignal?.()?.aborted;
+
+	// A failed poll is retried against the same job, so the code is never submitted twice
+	let pollFailed = false;
+	const retryPoll = async (attempt: number, error: unknown): Promise<boolean> => {
+		pollFailed = true;
+		const reason = getRetryReason(error);
+		if (!shouldRetry(attempt, reason)) {
+			return false;
+		}
+		reasons.push(reason);
+		await sleep(getRetryDelay(attempt, retry, error));
+		return true;
+	};
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			pollFailed = false;
+			const response = await executeCodeOnce.call(this, body, options, parts, retryPoll);
+			const reason = response?.success === false ? getRetryReason(undefined, response) : undefined;
+			if (!shouldRetry(attempt, reason)) {
+				if (maxAttempts > 1 && response && typeof response === 'object') {
+					response.retry = { attempts: reasons.length + 1, reasons };
+				}
+				// Results cached with other dependency versions are not valid anymore
+				const resolvedDependencies = response?.success ? getResolvedDependencies(response) : undefined;
+				if (resolvedDependencies && typeof body.cacheKey === 'string') {
+					setInstalledDependencies(body.cacheKey, resolvedDependencies);
+				}
+				return response;
+			}
+			reasons.push(reason);
+			await sleep(getRetryDelay(attempt, retry));
+		} catch (error) {
+			const reason = pollFailed ? undefined : getRetryReason(error);
+			if (!shouldRetry(attempt, reason)) {
+				if (reasons.length > 0 && error instanceof NodeApiError) {
+					error.description = [error.description, `Failed after ${reasons.length + 1} attempts, retried for: ${reasons.join(', ')}`]
+						.filter((description) => description)
+						.join('. ');
+				}
+				throw error;
+			}
+			reasons.push(reason);
+			await sleep(getRetryDelay(attempt, retry, error));
+		}
+	}
+}
+
+/**
+ * Build the timing summary of an execution from the time it took in the node
+ * and the times reported by the server. The network time is the rest, which
+ * for async jobs includes their time in the queue and between polls.
+ * `cacheHit` tells whether the dependencies came from the dependency cache of
+ * the server, and `resultCacheHit` whether the result came from the result
+ * cache of the node, without any request.
+ */
+export const getTimingSummary = (response: IDataObject, totalMs: number, resultCacheHit = false): IDataObject => {
+	const debug = (response.debug || {}) as IDataObject;
+	const serverTiming: IDataObject = {
+		...(debug.execution as IDataObject),
+		usedCache: (debug.cache as IDataObject)?.usedCache,
+		...(response.timing as IDataObject),
+	};
+	const installMs = Math.round(Number(serverTiming.dependencyInstallTimeMs) || 0);
+	const executionMs = Math.round(Number(serverTiming.executionTimeMs) || 0);
+	return {
+		totalMs,
+		networkMs: Math.max(totalMs - installMs - executionMs, 0),
+		installMs,
+		executionMs,
+		cacheHit: resultCacheHit || serverTiming.usedCache === true,
+		resultCacheHit,
+	};
+};
+
+/**
+ * Make a single execution on the CodeHarbor server. In async mode a job is
+ * submitted and its status polled with a growing interval until it finishes,
+ * so long-running code does not depend on HTTP timeouts. Either way the
+ * response has the same format as the one of `/execute`, with the timing
+ * summary of the execution in its `timing` field.
+ */
+async function executeCodeOnce(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	body: IDataObject,
+	options: IExecutionTypeOptions,
+	parts: IBinaryPart[] = [],
+	retryPoll?: (attempt: number, error: unknown) => Promise<boolean>,
+): Promise<any> {
+	// The status of a job is only known by the server it was submitted to
+	const target: IApiRequestOptions = {
+		compress: options.compressRequests,
+		compressionThreshold: options.compressionThreshold,
+	};
+	const requestStartTime = Date.now();
+	const withMetadata = (response: any) => {
+		if (response && typeof response === 'object') {
+			response.timing = getTimingSummary(response, Date.now() - requestStartTime);
+			if (target.transfer) {
+				response.transfer = target.transfer;
+			}
+		}
+		return response;
+	};
+
+	if (options.executionType !== 'async') {
+		return withMetadata(await codeHarborApiRequest.call(this, 'POST', '/execute', body, parts, target));
+	}
+
+	const job = await codeHarborApiRequest.call(this, 'POST', '/jobs', body, parts, target);
+	if (!job.success || !job.jobId) {
+		return withMetadata(job);
+	}
+
+	const jobEndpoint = `/jobs/${encodeURIComponent(job.jobId)}`;
+	const maxWaitTime = options.maxWaitTime || 600000;
+	let pollInterval = options.pollInterval || 1000;
+	const startTime = Date.now();
+	let pollFailures = 0;
+
+	// Cancel the remote job if the n8n execution gets cancelled
+	let finished = false;
+	const cancelJob = async () => {
+		if (!finished) {
+			finished = true;
+			await codeHarborApiRequest.call(this, 'DELETE', jobEndpoint, undefined, [], target).catch(() => undefined);
+		}
+	};
+	const signal = this.getExecutionCancelSignal?.();
+	signal?.addEventListener('abort', cancelJob);
+
+	try {
+		while (true) {
+			await sleep(pollInterval);
+			if (signal?.aborted) {
+				throw new NodeOperationError(this.getNode(), 'The execution was cancelled', {
+					description: `Job ID: ${job.jobId}`,
+				});
+			}
+
+			let status;
+			try {
+				status = await codeHarborApiRequest.call(this, 'GET', jobEndpoint, undefined, [], target);
+				pollFailures = 0;
+			} catch (error) {
+				if (!(await retryPoll?.(++pollFailures, error))) {
+					await cancelJob();
+					throw error;
+				}
+				continue;
+			}
+			if (status.status === 'completed' || status.status === 'failed') {
+				return withMetadata(status);
+			}
+
+			if (Date.now() - startTime >= maxWaitTime) {
+				await cancelJob();
+				throw new NodeOperationError(this.getNode(), `The job did not finish within ${maxWaitTime}ms`, {
+					description: `Job ID: ${job.jobId}`,
+				});
+			}
+			pollInterval = Math.min(pollInterval * 1.5, 30000);
+		}
+	} finally {
+		finished = true;
+		signal?.removeEventListener('abort', cancelJob);
+	}
+}
+
+/**
+ * Add the binary properties of an input item so the code can access them. They
+ * are inlined as base64, or with the multipart transfer collected in `parts`
+ * and referenced by the name of their part.
+ */
+export async function addBinaryToInput(
+	this: IExecuteFunctions,
+	inputJson: IDataObject,
+	item: INodeExecutionData,
+	itemIndex: number,
+	options: IBinaryInputOptions = {},
+	parts: IBinaryPart[] = [],
+): Promise<IDataObject> {
+	if (!item.binary || options.sendBinaryData === 'none') {
+		return inputJson;
+	}
+
+	let binaryPropertyNames = Object.keys(item.binary);
+	if (options.sendBinaryData === 'selected') {
+		const selectedNames = (options.binaryProperties || '').split(',').map((name) => name.trim());
+		binaryPropertyNames = binaryPropertyNames.filter((name) => selectedNames.includes(name));
+	}
+	if (binaryPropertyNames.length === 0) {
+		return inputJson;
+	}
+
+	const binary: IDataObject = {};
+	for (const binaryPropertyName of binaryPropertyNames) {
+		const { data: _data, ...binaryData } = item.binary[binaryPropertyName];
+		const binaryBuffer = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+
+		if (options.binaryTransfer === 'multipart') {
+			// Only the blob of the part is kept, so the file is not held twice in memory until it is sent
+			const partName = `binary-${itemIndex}-${binaryPropertyName}`;
+			parts.push({
+				name: partName,
+				blob: new Blob([binaryBuffer], { type: binaryData.mimeType }),
+				fileName: binaryData.fileName,
+			});
+			binary[binaryPropertyName] = {
+				...binaryData,
+				part: partName,
+			};
+		} else {
+			binary[binaryPropertyName] = {
+				...binaryData,
+				data: binaryBuffer.toString('base64'),
+			};
+		}
+	}
+	inputJson.binary = binary;
+
+	return inputJson;
+}
+
+/**
+ * Join the output, item and result indexes that identify a returned file, so
+ * default file names are unique and the same on every run
+ */
+export const getFileNameBase = (...indexes: Array<number | undefined>): string =>
+	indexes.filter((index) => index !== undefined).join('-');
+
+// Create proper binary files using n8n's helpers. Files without a name are
+// named after their property key and `fileNameBase`, e.g. "data-0.png".
+export async function processBinaryFile(
+	this: IExecuteFunctions,
+	value: any,
+	fileNameBase = '0',
+): Promise<{ [key: string]: IBinaryData }> {
+	const binaryData: { [key: string]: IBinaryData } = {};
+
+	for (const [key, val] of Object.entries<any>(value)) {
+		if (val && typeof val === 'object' && val !== null &&
+			'data' in val && typeof val.data === 'string' &&
+			(typeof val.mimeType === 'string' || typeof val.fileName === 'string')) {
+
+			// Create a buffer from the base64 string
+			const buffer = Buffer.from(val.data, 'base64');
+
+			// Without a MIME type, n8n infers it from the file name. TypeScript files are code here, not
+			// the MPEG transport streams of their registered type
+			const mimeType: string | undefined = val.mimeType ||
+				(/\.[cm]?ts$/i.test(val.fileName || '') ? 'application/typescript' : undefined);
+			const fileExtension = val.fileExtension
+				? `.${String(val.fileExtension).replace(/^\./, '')}`
+				: `.${(mimeType && extension(mimeType)) || 'bin'}`;
+			const fileName = val.fileName || `${key}-${fileNameBase}${fileExtension}`;
+
+			// Store binary data using n8n's helper (which automatically sets up correct metadata)
+			binaryData[key] = await this.helpers.prepareBinaryData(
+				buffer,
+				fileName,
+				mimeType
+			);
+
+			if (val.fileExtension) {
+				binaryData[key].fileExtension = fileExtension.slice(1);
+			}
+			if (typeof val.directory === 'string') {
+				binaryData[key].directory = val.directory;
+			}
+		}
+	}
+	return binaryData;
+}
+
+/**
+ * Collect the dependencies to install from the Dependencies parameter and an
+ * optional package.json. Returns undefined when none are set, so the server
+ * keeps detecting them from the code.
+ */
+export function getDependencies(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+	packageJson?: string | IDataObject,
+): IDataObject | undefined {
+	const dependencies: IDataObject = {};
+
+	if (packageJson) {
+		let manifest: IDataObject;
+		try {
+			manifest = typeof packageJson === 'string' ? JSON.parse(packageJson) : packageJson;
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'Package.json is not valid JSON', {
+				itemIndex,
+				description: error.message,
+			});
+		}
+		Object.assign(dependencies, manifest.dependencies);
+	}
+
+	const { packages } = this.getNodeParameter('dependencies', itemIndex, {}) as {
+		packages?: Array<{ name: string; version?: string }>;
+	};
+	for (const { name, version } of packages || []) {
+		if (name) {
+			dependencies[name.trim()] = version?.trim() || 'latest';
+		}
+	}
+
+	return Object.keys(dependencies).length > 0 ? dependencies : undefined;
+}
+
+/**
+ * Get the runtime version and resource limits of the Runtime parameter, to
+ * send in the options of the execution. Only the ones that are set are sent,
+ * so the defaults of the server apply to the others.
+ */
+export function getRuntimeOptions(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): IDataObject {
+	const runtime = this.getNodeParameter('runtimeOptions', itemIndex, {}) as {
+		runtimeVersion?: string;
+		maxMemory?: number;
+		cpuShare?: number;
+		maxOutputSize?: number;
+		networkAccess?: 'allow' | 'deny' | 'allowlist';
+		allowedHosts?: string;
+	};
+
+	const options: IDataObject = {};
+	if (runtime.runtimeVersion?.trim()) {
+		options.runtimeVersion = runtime.runtimeVersion.trim();
+	}
+	if (runtime.maxMemory) {
+		options.maxMemory = runtime.maxMemory;
+	}
+	if (runtime.cpuShare) {
+		options.cpuShare = runtime.cpuShare;
+	}
+	if (runtime.maxOutputSize) {
+		options.maxOutputSize = runtime.maxOutputSize;
+	}
+	if (runtime.networkAccess) {
+		const hosts = (runtime.allowedHosts || '')
+			.split(',')
+			.map((host) => host.trim())
+			.filter((host) => host);
+		if (runtime.networkAccess === 'allowlist' && hosts.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'No allowed hosts are set for the network access of the code', {
+				itemIndex,
+				description: 'Add the hosts the code can connect to in Allowed Hosts, or choose another Network Access',
+			});
+		}
+		options.network = {
+			policy: runtime.networkAccess,
+			hosts: runtime.networkAccess === 'allowlist' ? hosts : undefined,
+		};
+	}
+
+	return options;
+}
+
+/**
+ * Collect the additional files from the Files parameter, keyed by their path
+ * relative to the code. Returns undefined when there are none.
+ */
+export function getFiles(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): IDataObject | undefined {
+	const { values } = this.getNodeParameter('files', itemIndex, {}) as {
+		values?: Array<{ path: string; content?: string }>;
+	};
+
+	const files: IDataObject = {};
+	for (const { path, content } of values || []) {
+		const filePath = (path || '').trim().replace(/\\/g, '/').replace(/^\.\//, '');
+		if (!filePath) {
+			continue;
+		}
+		// Files must stay in the directory of the code
+		if (filePath.startsWith('/') || /^[a-zA-Z]:/.test(filePath) || filePath.split('/').includes('..')) {
+			throw new NodeOperationError(this.getNode(), `The file path "${path}" must be relative to the code`, {
+				itemIndex,
+				description: 'Use a path like "lib/utils.js", without ".." or a leading "/"',
+			});
+		}
+		files[filePath] = content ?? '';
+	}
+
+	return Object.keys(files).length > 0 ? files : undefined;
+}
+
+/**
+ * Collect the environment variables for the code from the Environment parameter
+ * and, when enabled, the secrets credential. Secrets take precedence and their
+ * values are returned separately so they can be masked.
+ */
+export async function getEnvironment(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<{ env?: IDataObject; secrets: string[] }> {
+	const env: IDataObject = {};
+	const secrets: string[] = [];
+
+	const { variables } = this.getNodeParameter('environment', itemIndex, {}) as {
+		variables?: Array<{ name: string; value?: string }>;
+	};
+	for (const { name, value } of variables || []) {
+		if (name) {
+			env[name.trim()] = value ?? '';
+		}
+	}
+
+	if (this.getNodeParameter('useSecrets', itemIndex, false) as boolean) {
+		const credentials = await this.getCredentials('codeHarborSecretsApi', itemIndex);
+		let secretValues: IDataObject;
+		try {
+			secretValues = typeof credentials.secrets === 'string'
+				? JSON.parse(credentials.secrets)
+				: credentials.secrets as IDataObject;
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'The secrets of the CodeHarbor Secrets credential are not valid JSON', { itemIndex });
+		}
+		for (const [name, value] of Object.entries(secretValues || {})) {
+			env[name] = String(value);
+			if (String(value)) {
+				secrets.push(String(value));
+			}
+		}
+	}
+
+	return {
+		env: Object.keys(env).length > 0 ? env : undefined,
+		// Longest first, so a secret containing another one is masked entirely
+		secrets: secrets.sort((a, b) => b.length - a.length),
+	};
+}
+
+/**
+ * Get the registry configuration from the NPM registry credential, when
+ * enabled, for the server to write a temporary .npmrc for the install
+ */
+export async function getRegistry(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<IDataObject | undefined> {
+	if (!(this.getNodeParameter('usePrivateRegistry', itemIndex, false) as boolean)) {
+		return undefined;
+	}
+
+	const credentials = await this.getCredentials('codeHarborNpmRegistryApi', itemIndex);
+	let scopes: IDataObject;
+	try {
+		scopes = typeof credentials.scopes === 'string'
+			? JSON.parse(credentials.scopes || '{}')
+			: (credentials.scopes as IDataObject) || {};
+	} catch (error) {
+		throw new NodeOperationError(this.getNode(), 'The scoped registries of the CodeHarbor NPM Registry credential are not valid JSON', { itemIndex });
+	}
+
+	return {
+		url: credentials.url,
+		token: credentials.token || undefined,
+		scopes,
+	};
+}
+
+/**
+ * Suffix the cache key with a hash of the registry configuration, so caches of
+ * the same key installed from different registries don't collide. The token is
+ * left out, as it does not change what gets installed.
+ */
+export const getRegistryCacheKey = (cacheKey: string, registry?: IDataObject): string => {
+	if (!registry) {
+		return cacheKey;
+	}
+
+	const hash = createHash('sha256')
+		.update(JSON.stringify({ url: registry.url, scopes: registry.scopes }))
+		.digest('hex')
+		.slice(0, 12);
+	return `${cacheKey}-${hash}`;
+};
+
+export interface IContextOptions {
+	includeVariables?: string;
+	persistStaticData?: boolean;
+}
+
+/**
+ * Build the context passed to the code as its second argument, with what the
+ * built-in Code node exposes as $workflow, $execution, $node, $prevNode and
+ * $vars, and the static data of the node when it is persisted
+ */
+export function getExecutionContext(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	options: IContextOptions = {},
+): IDataObject {
+	const workflow = this.getWorkflow();
+	const node = this.getNode();
+	const proxy = this.getWorkflowDataProxy(itemIndex);
+
+	const context: IDataObject = {
+		workflow: {
+			id: workflow.id,
+			name: workflow.name,
+			active: workflow.active,
+		},
+		execution: {
+			id: this.getExecutionId(),
+			mode: this.getMode(),
+		},
+		node: {
+			name: node.name,
+			type: node.type,
+		},
+		runIndex: proxy.$thisRunIndex,
+		itemIndex,
+	};
+
+	const prevNode = proxy.$prevNode as IDataObject | undefined;
+	if (prevNode?.name) {
+		context.prevNode = {
+			name: prevNode.name,
+			outputIndex: prevNode.outputIndex,
+			runIndex: prevNode.runIndex,
+		};
+	}
+
+	const variableNames = (options.includeVariables || '')
+		.split(',')
+		.map((name) => name.trim())
+		.filter((name) => name);
+	if (variableNames.length > 0) {
+		let variables: IDataObject;
+		try {
+			variables = (proxy.$vars as IDataObject) || {};
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'The variables of the instance are not available', { itemIndex });
+		}
+		context.vars = variableNames.reduce((vars: IDataObject, name) => {
+			vars[name] = variables[name];
+			return vars;
+		}, {});
+	}
+
+	if (options.persistStaticData) {
+		context.staticData = this.getWorkflowStaticData('node');
+	}
+
+	return context;
+}
+
+/**
+ * Replace the static data of the node with the one returned by the server, so
+ * the code can keep cursors or watermarks between executions
+ */
+export function saveStaticData(this: IExecuteFunctions, response: IDataObject): void {
+	if (!isPlainObject(response.staticData)) {
+		return;
+	}
+
+	const staticData = this.getWorkflowStaticData('node');
+	for (const key of Object.keys(staticData)) {
+		delete staticData[key];
+	}
+	Object.assign(staticData, response.staticData);
+}
+
+/**
+ * Replace every occurrence of the secret values in strings of the given value
+ */
+export const maskSecrets = <T>(value: T, secrets: string[] = []): T => {
+	if (secrets.length === 0) {
+		return value;
+	}
+
+	if (typeof value === 'string') {
+		return secrets.reduce((masked, secret) => masked.split(secret).join('********'), value as string) as unknown as T;
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => maskSecrets(entry, secrets)) as unknown as T;
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, maskSecrets(entry, secrets)]),
+		) as T;
+	}
+	return value;
+};
+
+/**
+ * Normalize a paired item set by the code, which can be an item index, an
+ * object with the item index or a list of them
+ */
+const normalizePairedItem = (pairedItem: any): IPairedItemData | IPairedItemData[] | undefined => {
+	if (Array.isArray(pairedItem)) {
+		return pairedItem.map((entry) => normalizePairedItem(entry) as IPairedItemData);
+	}
+	if (typeof pairedItem === 'number') {
+		return { item: pairedItem };
+	}
+	if (pairedItem && typeof pairedItem === 'object' && typeof pairedItem.item === 'number') {
+		return pairedItem;
+	}
+	return undefined;
+};
+
+const isPlainObject = (value: any): value is IDataObject =>
+	!!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Turn a single value returned by the code into an output item, shaped by the
+ * output mode, attaching the timing summary, and debug info, console logs and
+ * processed binary data when requested
+ */
+export async function buildOutputItem(
+	this: IExecuteFunctions,
+	value: any,
+	pairedItem: IPairedItemData | undefined,
+	response: IDataObject,
+	options: IOutputOptions,
+	fileNameBase?: string,
+): Promise<INodeExecutionData> {
+	let binary: { [key: string]: IBinaryData } | undefined;
+
+	// Process binary output if enabled and binary data exists in the result
+	if (options.processBinaryOutput &&
+		isPlainObject(value) &&
+		value.binary &&
+		typeof value.binary === 'object') {
+
+		try {
+			// Process binary data using n8n's built-in helpers
+			binary = await processBinaryFile.call(this, value.binary, fileNameBase ?? String(pairedItem?.item ?? 0));
+
+			// Remove binary data from JSON to avoid duplication
+			const { binary: _binary, ...rest } = value;
+			value = rest;
+		} catch (error) {
+			// If binary processing fails, log it but continue
+			console.error('Failed to process binary data:', error);
+		}
+	}
+
+	const resultField = options.resultField || 'result';
+	const outputMode = options.outputMode || 'wrap';
+
+	// The code can set the paired item to keep the lineage when it filters or reorders items. The
+	// results of a code run for a single item always belong to that item
+	let outputPairedItem: IPairedItemData | IPairedItemData[] | undefined = pairedItem;
+	let explicitPairedItem: unknown;
+	if (isPlainObject(value) && 'pairedItem' in value) {
+		({ pairedItem: explicitPairedItem, ...value } = value);
+	}
+	if (options.pairItems && explicitPairedItem !== undefined) {
+		outputPairedItem = normalizePairedItem(explicitPairedItem) ?? pairedItem;
+
+		const numberOfItems = this.getInputData().length;
+		const pairedItems = Array.isArray(outputPairedItem) ? outputPairedItem : [outputPairedItem];
+		if (pairedItems.some((entry) => !entry || !Number.isInteger(entry.item) || entry.item < 0 || entry.item >= numberOfItems)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The paired item ${JSON.stringify(explicitPairedItem)} does not match any input item`,
+				{
+					itemIndex: pairedItem?.item,
+					description: `Set pairedItem to the index of an input item, from 0 to ${numberOfItems - 1}`,
+				},
+			);
+		}
+	}
+	// Results in the n8n item format ({ json, binary }) are unwrapped when replacing or merging
+	const data = isPlainObject(value) && isPlainObject(value.json) ? value.json : value;
+
+	let outputJson: Record<string, any>;
+	if (outputMode === 'replace') {
+		outputJson = isPlainObject(data) ? { ...data } : { [resultField]: data };
+	} else if (outputMode === 'merge') {
+		const firstPairedItem = Array.isArray(outputPairedItem) ? outputPairedItem[0] : outputPairedItem;
+		const inputJson = firstPairedItem ? this.getInputData()[firstPairedItem.item]?.json : undefined;
+		outputJson = isPlainObject(data)
+			? { ...inputJson, ...data }
+			: { ...inputJson, [resultField]: data };
+	} else {
+		outputJson = {
+			[resultField]: value,
+		};
+	}
+
+	// Add the timing summary, also without debug info to see where the time went
+	if (response.timing) {
+		outputJson._timing = response.timing;
+	}
+
+	// Add debug info if requested, with how the result was obtained
+	if (options.debug && (response.debug || response.retry || response.resultCache || response.transfer)) {
+		const debug: IDataObject = { ...response.debug as IDataObject };
+		for (const key of ['retry', 'resultCache', 'transfer']) {
+			if (response[key]) {
+				debug[key] = response[key];
+			}
+		}
+		outputJson._debug = maskSecrets(debug, options.secrets);
+	}
+
+	// Add console logs if capture is enabled
+	if (options.captureLogs && Array.isArray(response.console) && response.console.length > 0) {
+		outputJson._console = normalizeLogs(response.console, undefined, options.secrets).map((log) => log.message);
+	}
+
+	// Add the dependency versions that were installed, to audit what actually ran, whether they
+	// were listed, locked or detected from the code
+	const resolvedDependencies = getResolvedDependencies(response);
+	if (resolvedDependencies && Object.keys(resolvedDependencies).length > 0) {
+		outputJson._dependencies = resolvedDependencies;
+	}
+
+	const outputItem: INodeExecutionData = {
+		json: outputJson,
+		pairedItem: outputPairedItem,
+	};
+	if (binary) {
+		outputItem.binary = binary;
+	}
+
+	return outputItem;
+}
+
+// Results of previous executions by the hash of their request and input, shared by all executions
+const resultCache = new Map<string, { expiresAt: number; size: number; dependencies?: string; response: IDataObject }>();
+const MAX_RESULT_CACHE_ENTRIES = 1000;
+const MAX_RESULT_CACHE_SIZE = 50 * 1024 * 1024;
+let resultCacheSize = 0;
+
+// Versions of the dependencies installed in each dependency cache of the server, as last reported by it
+const installedDependencies = new Map<string, string>();
+
+/**
+ * Get the versions of the dependencies an execution ran with, as reported by the server
+ */
+export const getResolvedDependencies = (response: IDataObject): IDataObject | undefined =>
+	(response.dependencies || (response.debug as IDataObject)?.dependencies) as IDataObject | undefined;
+
+/**
+ * Record the versions of the dependencies installed in a dependency cache.
+ * Without them, e.g. when the cache was deleted, they are unknown until the
+ * next execution, and the results cached with other versions are not used.
+ */
+export const setInstalledDependencies = (cacheKey: string, dependencies?: IDataObject): void => {
+	if (dependencies) {
+		installedDependencies.set(cacheKey, JSON.stringify(dependencies));
+	} else {
+		installedDependencies.delete(cacheKey);
+	}
+};
+
+const deleteCachedResult = (key: string): void => {
+	resultCacheSize -= resultCache.get(key)?.size ?? 0;
+	resultCache.delete(key);
+};
+
+/**
+ * Hash what determines the result of an execution: the request (code,
+ * dependencies, environment...) and the input it runs on, with its binary data
+ */
+export const getResultCacheKey = (request: IDataObject, input: any, binary?: unknown): string =>
+	createHash('sha256')
+		.update(JSON.stringify({ request, input, binary }))
+		.digest('hex');
+
+/**
+ * Get the cached response of an execution, when it did not expire and ran
+ * with the dependency versions last installed in its dependency cache. The
+ * response is marked as a hit of the result cache in its `resultCache` field.
+ */
+export const getCachedResult = (key: string, cacheKey: string, now = Date.now()): IDataObject | undefined => {
+	const entry = resultCache.get(key);
+	if (!entry) {
+		return undefined;
+	}
+	deleteCachedResult(key);
+	if (entry.expiresAt <= now || entry.dependencies !== installedDependencies.get(cacheKey)) {
+		return undefined;
+	}
+
+	// Re-insert the entry so the least recently used ones are evicted first
+	resultCache.set(key, entry);
+	resultCacheSize += entry.size;
+	return { ...entry.response, resultCache: { hit: true }, timing: getTimingSummary({}, 0, true) };
+};
+
+/**
+ * Cache the successful result of an execution for the given time in seconds.
+ * Results above a tenth of the size of the cache, e.g. with large binary
+ * data, are not cached.
+ */
+export const setCachedResult = (key: string, response: IDataObject, data: any, ttl: number): void => {
+	deleteCachedResult(key);
+	const cachedResponse: IDataObject = {
+		success: true,
+		data,
+		console: response.console,
+		debug: response.debug,
+		dependencies: response.dependencies,
+	};
+	const size = Buffer.byteLength(JSON.stringify(cachedResponse));
+	if (size > MAX_RESULT_CACHE_SIZE / 10) {
+		return;
+	}
+
+	const dependencies = getResolvedDependencies(response);
+	resultCache.set(key, {
+		expiresAt: Date.now() + ttl * 1000,
+		size,
+		dependencies: dependencies ? JSON.stringify(dependencies) : undefined,
+		response: cachedResponse,
+	});
+	resultCacheSize += size;
+
+	for (const oldestKey of resultCache.keys()) {
+		if (resultCache.size <= MAX_RESULT_CACHE_ENTRIES && resultCacheSize <= MAX_RESULT_CACHE_SIZE) {
+			break;
+		}
+		deleteCachedResult(oldestKey);
+	}
+};
+
+/**
+ * Get the runtime of the server that runs code of the given language
+ */
+export const getRuntime = (language: string): string => (language === 'python' ? 'python' : 'node');
+
+/**
+ * Extend code written for a single item so one execution can process a whole
+ * batch. The original code is kept as is, so its line numbers and imports are
+ * not affected, and a footer replaces the exported function (the main function
+ * in Python) with one that runs it for every item and reports a separate
+ * result or error for each of them.
+ */
+export const wrapCodeForBatch = (code: string, language = 'javascript'): string => {
+	if (language === 'python') {
+		return `${code}
+
+__codeharbor_main = main
+
+
+def main(items, context=None):
+    import contextlib
+    import inspect
+    import io
+    import sys
+    import traceback
+
+    accepts_context = len(inspect.signature(__codeharbor_main).parameters) > 1
+    results = []
+    for index, item in enumerate(items):
+        # Record the output of each item, then write it to the console
+        output = io.StringIO()
+        try:
+            with contextlib.redirect_stdout(output):
+                if context is not None and accepts_context:
+                    data = __codeharbor_main(item, {**context, 'itemIndex': context['itemIndexes'][index]})
+                else:
+                    data = __codeharbor_main(item)
+            result = {'success': True, 'data': data}
+        except Exception as error:
+            result = {'success': False, 'error': str(error), 'stack': traceback.format_exc()}
+        result['console'] = [{'level': 'info', 'message': line} for line in output.getvalue().splitlines()]
+        sys.stdout.write(output.getvalue())
+        results.append(result)
+    return results
+`;
+	}
+
+	return `${code}
+;(function () {
+	const __codeHarborExport = module.exports;
+	const __codeHarborFunction = typeof __codeHarborExport === 'function' ? __codeHarborExport : __codeHarborExport.default;
+	const __codeHarborConsole = {};
+	for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+		__codeHarborConsole[level] = console[level];
+	}
+	module.exports = async function (items, context) {
+		const results = [];
+		for (const [index, item] of items.entries()) {
+			const itemContext = context && { ...context, itemIndex: context.itemIndexes[index] };
+			// Record the console output of each item, while still writing it to the console
+			const logs = [];
+			for (const level of Object.keys(__codeHarborConsole)) {
+				console[level] = (...args) => {
+					logs.push({
+						level,
+						timestamp: new Date().toISOString(),
+						message: args.map((arg) => typeof arg === 'string' ? arg : require('util').inspect(arg)).join(' '),
+					});
+					__codeHarborConsole[level].apply(console, args);
+				};
+			}
+			try {
+				results.push({ success: true, data: await __codeHarborFunction(item, itemContext), console: logs });
+			} catch (error) {
+				results.push({
+					success: false,
+					error: error && error.message ? error.message : String(error),
+					stack: error && error.stack,
+					console: logs,
+				});
+			} finally {
+				Object.assign(console, __codeHarborConsole);
+			}
+		}
+		return results;
+	};
+})();`;
+};
+
+/**
+ * Convert the console output returned by the server, as lines or entries with
+ * a level, to log entries. The levels of the console are mapped to the ones of
+ * the n8n logger.
+ */
+export const normalizeLogs = (logs: any, itemIndex?: number, secrets: string[] = []): ILogEntry[] => {
+	if (!Array.isArray(logs)) {
+		return [];
+	}
+
+	const levels: IDataObject = { error: 'error', warn: 'warn', warning: 'warn', debug: 'debug', trace: 'debug' };
+	return logs.map((log) => {
+		const entry: ILogEntry = isPlainObject(log)
+			? {
+				level: (levels[String(log.level ?? log.type).toLowerCase()] as ILogEntry['level']) || 'info',
+				timestamp: log.timestamp as string | undefined,
+				message: String(log.message ?? ''),
+			}
+			: { level: 'info', message: String(log) };
+		if (itemIndex !== undefined) {
+			entry.itemIndex = itemIndex;
+		}
+		return maskSecrets(entry, secrets);
+	});
+};
+
+/**
+ * Forward the log entries of the code to the n8n logger, or add them as items
+ * of the Logs output, depending on the Log Handling option
+ */
+export function handleLogs(
+	this: IExecuteFunctions,
+	logs: ILogEntry[],
+	logHandling: string | undefined,
+	logData: INodeExecutionData[],
+): void {
+	if (logHandling === 'logger') {
+		for (const { level, message, ...meta } of logs) {
+			this.logger[level](message, { ...meta, nodeName: this.getNode().name });
+		}
+	} else if (logHandling === 'output') {
+		logData.push(...logs.map((log) => ({
+			json: log,
+			pairedItem: { item: log.itemIndex ?? 0 },
+		})));
+	}
+}
+
+/**
+ * Attach the console output of an execution to the first of its output items
+ * only, instead of repeating it on every item
+ */
+export const attachLogsOnce = (outputData: INodeExecutionData[][], logs: ILogEntry[]): void => {
+	const firstItem = outputData.find((outputItems) => outputItems.length > 0)?.[0];
+	if (firstItem && logs.length > 0) {
+		firstItem.json._console = logs.map((log) => log.message);
+	}
+};
+
+/**
+ * Classify an error as syntax, dependency install, runtime, timeout, auth,
+ * server or network error, from the type reported by the server or the error
+ * itself. Errors of requests without an HTTP status code are network errors.
+ */
+export const getErrorType = (error: any): string => {
+	if (error?.context?.errorType) {
+		return error.context.errorType;
+	}
+
+	const message = String(error?.message || error?.error || '');
+	const httpCode = String(error?.httpCode || '');
+	if (httpCode === '401' || httpCode === '403') {
+		return 'auth';
+	}
+	if (httpCode === '408' || httpCode === '504' || /timed? ?out/i.test(message)) {
+		return 'timeout';
+	}
+	if (error instanceof NodeApiError) {
+		return /^\d{3}$/.test(httpCode) ? 'server' : 'network';
+	}
+	if (/SyntaxError/.test(message)) {
+		return 'syntax';
+	}
+	if (/Cannot find module|npm ERR|dependenc(y|ies) install/i.test(message)) {
+		return 'dependency';
+	}
+	return 'runtime';
+};
+
+/**
+ * Map the frames of a stack trace returned by the server to the code of the
+ * node. The paths of the execution directory on the server are removed, so the
+ * frames point at the entry file (e.g. `index.js:3:15`, with the line numbers
+ * of the Code field) or at the helper files. The frames of Node.js internals
+ * are left out, only the ones of the code and its dependencies are useful.
+ */
+const mapStackToCode = (stack: string): string =>
+	stack
+		.split('\n')
+		.filter((line) => !line.includes('node:internal'))
+		.map((line) => line.replace(/(?:file:\/\/)?[^\s()"']*\/executions\/[^/\s()"']+\//g, ''))
+		.join('\n');
+
+/**
+ * Create the error for a failed execution. The error type, the location in the
+ * code (e.g. of a TypeScript transpile error), the stack and the console output
+ * up to the failure are kept in its context for the error output.
+ */
+export function createExecutionError(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	response: IDataObject,
+	itemIndex?: number,
+	secrets: string[] = [],
+): NodeOperationError {
+	const message = maskSecrets((response.error as string) || 'Code execution failed', secrets);
+	const errorType = (response.errorType as string) || getErrorType({ message });
+	const location = [
+		response.line !== undefined ? `line ${response.line}` : '',
+		response.column !== undefined ? `column ${response.column}` : '',
+	].filter(Boolean).join(', ');
+
+	const error = new NodeOperationError(this.getNode(), message, {
+		itemIndex,
+		description: location
+			? `The code failed with a ${errorType} error at ${location}`
+			: `The code failed with a ${errorType} error`,
+	});
+	error.context.errorType = errorType;
+	error.context.line = response.line;
+	error.context.column = response.column;
+	error.context.stack = typeof response.stack === 'string'
+		? maskSecrets(mapStackToCode(response.stack), secrets)
+		: undefined;
+	error.context.console = Array.isArray(response.console)
+		? normalizeLogs(response.console, undefined, secrets).map((log) => log.message)
+		: undefined;
+	error.context.retry = response.retry;
+	error.context.timing = response.timing;
+
+	return error;
+}
+
+/**
+ * Build the item output for an error when continuing on fail. The error is set
+ * on the item, so n8n sends it to the error output when that is enabled.
+ */
+export function buildErrorItem(
+	this: IExecuteFunctions,
+	error: any,
+	itemIndex: number,
+	inputItem?: IDataObject,
+): INodeExecutionData {
+	const nodeError = error instanceof NodeOperationError || error instanceof NodeApiError
+		? error
+		: new NodeOperationError(this.getNode(), error, { itemIndex });
+	const context = (nodeError.context || {}) as IDataObject;
+
+	const json: IDataObject = {
+		error: nodeError.message,
+		errorType: getErrorType(nodeError),
+	};
+	if (nodeError.description) {
+		json.description = nodeError.description;
+	}
+	for (const key of ['line', 'column', 'stack', 'console', 'retry', 'timing']) {
+		if (context[key] !== undefined) {
+			json[key] = context[key];
+		}
+	}
+	if (inputItem) {
+		json.item = inputItem;
+	}
+
+	return {
+		json,
+		error: nodeError,
+		pairedItem: { item: itemIndex },
+	};
+}
+
+/**
+ * Run the task for every entry, with at most `concurrency` tasks in flight
+ */
+export async function runWithConcurrency<T>(
+	entries: T[],
+	concurrency: number,
+	task: (entry: T, index: number) => Promise<void>,
+): Promise<void> {
+	let nextIndex = 0;
+	const worker = async () => {
+		while (nextIndex < entries.length) {
+			const index = nextIndex++;
+			await task(entries[index], index);
+		}
+	};
+
+	const workers = [];
+	for (let i = 0; i < Math.min(Math.max(concurrency, 1), entries.length); i++) {
+		workers.push(worker());
+	}
+	await Promise.all(workers);
+}
+
+/**
+ * Split the data returned by the code into one list of results per output.
+ * With more than one output the code can either return `{ outputs: [[...], [...]] }`
+ * or tag each result with an `_output` index. Untagged results go to the first output.
+ * Each result keeps its position in the returned list, or in its list of `outputs`,
+ * to pair it with its input item.
+ */
+export function routeResults(
+	this: IExecuteFunctions,
+	data: any,
+	numberOfOutputs: number,
+	itemIndex?: number,
+): IRoutedResult[][] {
+	const routed: IRoutedResult[][] = Array.from({ length: numberOfOutputs }, () => []);
+
+	const getOutput = (index: number) => {
+		if (!Number.isInteger(index) || index < 0 || index >= numberOfOutputs) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Output index ${index} is out of range, the node has ${numberOfOutputs} outputs`,
+				{
+					itemIndex,
+					description: `Use an output index from 0 to ${numberOfOutputs - 1}, or add outputs in Number of Outputs`,
+				},
+			);
+		}
+		return routed[index];
+	};
+
+	if (numberOfOutputs > 1 &&
+		data &&
+		typeof data === 'object' &&
+		!Array.isArray(data) &&
+		Array.isArray(data.outputs)) {
+		data.outputs.forEach((outputData: any, index: number) => {
+			if (outputData === undefined || outputData === null) {
+				return;
+			}
+			const results = Array.isArray(outputData) ? outputData : [outputData];
+			getOutput(index).push(...results.map((value, resultIndex) => ({ value, index: resultIndex })));
+		});
+		return routed;
+	}
+
+	const results = Array.isArray(data) ? data : [data];
+	for (const [index, result] of results.entries()) {
+		if (numberOfOutputs > 1 &&
+			result &&
+			typeof result === 'object' &&
+			typeof result._output === 'number') {
+			const { _output, ...value } = result;
+			getOutput(_output).push({ value, index });
+		} else {
+			routed[0].push({ value: result, index });
+		}
+	}
+	return routed;
+}
@@ -0,0 +1,260 @@
+import {
+	IDataObject,
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	NodeConnectionType,
+	NodeOperationError,
+	SupplyData,
+} from "n8n-workflow";
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import {
+	createExecutionError,
+	executeCode,
+	getDependencies,
+	testServerCredential,
+} from '../CodeHarbor/GenericFunctions';
+
+export class CodeHarborTool implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: "CodeHarbor Tool",
+		name: 'codeHarborTool',
+		icon: "file:icon.svg",
+		group: ["transform"],
+		version: 1,
+		description: "Let an AI Agent run code with dependencies in the CodeHarbor executor",
+		defaults: {
+			name: "CodeHarbor Tool",
+		},
+		// eslint-disable-next-line n8n-nodes-base/node-class-description-inputs-wrong-regular-node
+		inputs: [],
+		// eslint-disable-next-line n8n-nodes-base/node-class-description-outputs-wrong
+		outputs: [NodeConnectionType.AiTool],
+		outputNames: ['Tool'],
+		credentials: [
+			{
+				name: 'codeHarborServerApi',
+				required: true,
+				testedBy: 'codeHarborServerApiTest',
+			},
+		],
+		properties: [
+			{
+				displayName: 'Tool Name',
+				name: 'name',
+				type: 'string',
+				default: '',
+				placeholder: 'add_business_days',
+				description: 'Name of the tool, as seen by the agent. Use only letters, numbers and underscores, up to 64 characters.',
+				required: true,
+			},
+			{
+				displayName: 'Description',
+				name: 'description',
+				type: 'string',
+				typeOptions: {
+					rows: 3,
+				},
+				default: '',
+				placeholder: 'Adds a number of business days to a date. Returns the resulting date in ISO format.',
+				description: 'Description of what the tool does and returns, used by the agent to decide when to call it',
+				required: true,
+			},
+			{
+				displayName: 'Input Schema',
+				name: 'inputSchema',
+				type: 'json',
+				default: '{\n  "type": "object",\n  "properties": {\n    "input": {\n      "type": "string",\n      "description": "Input of the tool"\n    }\n  },\n  "required": ["input"]\n}',
+				description: 'JSON schema of the arguments the agent passes to the tool',
+				required: true,
+			},
+			{
+				displayName: 'Language',
+				name: 'language',
+				type: 'options',
+				options: [
+					{
+						name: 'JavaScript',
+						value: 'javascript',
+					},
+					{
+						name: 'TypeScript',
+						value: 'typescript',
+					},
+				],
+				default: 'javascript',
+				description: 'Language of the code. TypeScript code is transpiled by the CodeHarbor server before it runs.',
+			},
+			{
+				displayName: "Code",
+				name: "code",
+				type: "string",
+				typeOptions: {
+					editor: "jsEditor",
+					editorLanguage: "javascript",
+				},
+				default: "// This function runs each time the agent calls the tool\n// It receives the arguments of the agent, following the input schema\n// You can use external npm packages by requiring them\n\nmodule.exports = function(items) {\n  console.log('Called with', items);\n  \n  // The returned value is sent back to the agent\n  return {\n    output: items.input,\n  };\n};",
+				description: "Code to execute when the agent calls the tool. Must export a function that takes the arguments of the agent as items and returns the result for the agent.",
+				required: true,
+			},
+			{
+				displayName: 'Dependencies',
+				name: 'dependencies',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add Dependency',
+				description: 'NPM packages to install, with their versions. These take precedence over the dependencies detected from the code.',
+				options: [
+					{
+						displayName: 'Package',
+						name: 'packages',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'lodash',
+								description: 'Name of the NPM package',
+							},
+							{
+								displayName: 'Version',
+								name: 'version',
+								type: 'string',
+								default: 'latest',
+								placeholder: '^4.17.21',
+								description: 'Version or semver range of the package',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				default: {},
+				placeholder: 'Add Option',
+				options: [
+					{
+						displayName: "Cache Key",
+						name: "cacheKey",
+						type: "string",
+						default: "={{ $workflow.id }}",
+						description: "Unique identifier for caching dependencies",
+					},
+					{
+						displayName: "Force Update Dependencies",
+						name: "forceUpdate",
+						type: "boolean",
+						default: false,
+						description: "Whether to force fresh installation of dependencies",
+					},
+					{
+						displayName: "Timeout",
+						name: "timeout",
+						type: "number",
+						default: 60000,
+						description: "Maximum execution time in milliseconds",
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			codeHarborServerApiTest: testServerCredential,
+		},
+	};
+
+	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+		const name = this.getNodeParameter('name', itemIndex) as string;
+		const description = this.getNodeParameter('description', itemIndex) as string;
+		const language = this.getNodeParameter('language', itemIndex, 'javascript') as string;
+		const code = this.getNodeParameter('code', itemIndex) as string;
+		const inputSchema = this.getNodeParameter('inputSchema', itemIndex) as string | IDataObject;
+		const options = this.getNodeParameter('options', itemIndex) as {
+			cacheKey?: string;
+			forceUpdate?: boolean;
+			timeout?: number;
+		};
+
+		// The LLM providers reject the other tool names, which would only fail when the agent runs
+		if (!/^[A-Za-z0-9_]{1,64}$/.test(name)) {
+			throw new NodeOperationError(this.getNode(), `The tool name "${name}" is not valid`, {
+				itemIndex,
+				description: 'Use only letters, numbers and underscores, up to 64 characters, e.g. add_business_days',
+			});
+		}
+
+		let schema: IDataObject;
+		try {
+			schema = typeof inputSchema === 'string' ? JSON.parse(inputSchema) : inputSchema;
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), 'Input Schema is not valid JSON', {
+				itemIndex,
+				description: error.message,
+			});
+		}
+
+		const dependencies = getDependencies.call(this, itemIndex);
+		const cacheKey = options.cacheKey || this.getWorkflow().id?.toString() || Math.random().toString();
+
+		// Run the code with the arguments of the agent and serialize the result for it
+		const runCode = async (args: IDataObject): Promise<string> => {
+			const response = await executeCode.call(this, {
+				code,
+				language,
+				items: args,
+				cacheKey,
+				dependencies,
+				options: {
+					timeout: options.timeout || 60000,
+					forceUpdate: options.forceUpdate || false,
+					debug: false,
+				},
+			}, {});
+
+			if (!response.success) {
+				throw createExecutionError.call(this, response, itemIndex);
+			}
+			return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+		};
+
+		const tool = new DynamicStructuredTool({
+			name,
+			description,
+			schema,
+			func: async (args: IDataObject): Promise<string> => {
+				const { index } = this.addInputData(NodeConnectionType.AiTool, [[{ json: { query: args } }]]);
+
+				let response: string;
+				let executionError: NodeOperationError | undefined;
+				try {
+					response = await runCode(args);
+				} catch (error) {
+					executionError = error instanceof NodeOperationError
+						? error
+						: new NodeOperationError(this.getNode(), error, { itemIndex });
+					// Let the agent know about the error so it can react to it
+					response = `There was an error: "${executionError.message}"`;
+				}
+
+				if (executionError) {
+					this.addOutputData(NodeConnectionType.AiTool, index, executionError);
+				} else {
+					this.addOutputData(NodeConnectionType.AiTool, index, [[{ json: { response } }]]);
+				}
+				return response;
+			},
+		});
+
+		return {
+			response: tool,
+		};
+	}
+}